@@ -1,25 +1,36 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import morgan from 'morgan';
 import { connectDb } from '../src/config/db';
+import { requestLogger } from '../src/middleware/requestLogger';
 import authRouter from '../src/routes/auth';
 import usersRouter from '../src/routes/users';
 import songsRouter from '../src/routes/songs';
+import playlistsRouter from '../src/routes/playlists';
+import searchRouter from '../src/routes/search';
+import mediaRouter from '../src/routes/media';
+import cronRouter from '../src/routes/cron';
+import { runMigrations } from '../src/utils/migrations';
 
 const app = express();
 
 // Initialize database connection
-connectDb().catch((err) => {
-  console.error('Failed to connect to MongoDB', err);
-});
+connectDb()
+  .then(async () => {
+    await runMigrations().catch((err) => {
+      console.error('Failed to run migrations', err);
+    });
+  })
+  .catch((err) => {
+    console.error('Failed to connect to MongoDB', err);
+  });
 
 app.use(cors());
 app.use(helmet());
-app.use(morgan('dev'));
-// Increase body size limit to 50MB for file uploads
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ limit: '50mb', extended: true }));
+app.use(requestLogger);
+// Files come in as multipart and are size-checked per field by middleware/upload
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ limit: '1mb', extended: true }));
 
 app.get('/health', (_req, res) => {
   res.json({ status: 'ok' });
@@ -29,6 +40,11 @@ app.get('/health', (_req, res) => {
 app.use('/auth', authRouter);
 app.use('/users', usersRouter);
 app.use('/songs', songsRouter);
+app.use('/playlists', playlistsRouter);
+app.use('/library', searchRouter);
+app.use('/media', mediaRouter);
+// Trending scores and charts are refreshed by Vercel Cron here (see vercel.json)
+app.use('/cron', cronRouter);
 
 // Export the app for Vercel serverless
 export default app;
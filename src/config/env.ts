@@ -2,13 +2,42 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+const port = Number(process.env.PORT) || 4000;
+const megabytes = (value: string | undefined, fallback: number) =>
+  (Number(value) || fallback) * 1024 * 1024;
+
 export const env = {
-  port: Number(process.env.PORT) || 4000,
+  port,
   mongoUri: process.env.MONGO_URI || '',
   jwtSecret: process.env.JWT_SECRET || '',
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
   refreshJwtSecret: process.env.REFRESH_JWT_SECRET || '',
   refreshJwtExpiresIn: process.env.REFRESH_JWT_EXPIRES_IN || '30d',
+  // How often trending scores and charts are recomputed
+  popularityRefreshMinutes: Number(process.env.POPULARITY_REFRESH_MINUTES) || 15,
+  // Bearer token the scheduler sends to /cron routes (Vercel Cron sends CRON_SECRET)
+  cronSecret: process.env.CRON_SECRET || '',
+  // Listen session join links are built as `${joinLinkBaseUrl}/${code}`
+  joinLinkBaseUrl: process.env.JOIN_LINK_BASE_URL || 'audioly://join',
+  storage: {
+    // 'cloudinary' or 'local' (files on disk, served from /media)
+    driver: process.env.STORAGE_DRIVER || 'cloudinary',
+    localDir: process.env.LOCAL_STORAGE_DIR || 'uploads',
+    publicBaseUrl: process.env.PUBLIC_BASE_URL || `http://localhost:${port}`,
+    signingSecret: process.env.MEDIA_SIGNING_SECRET || process.env.JWT_SECRET || '',
+  },
+  uploads: {
+    maxAudioBytes: megabytes(process.env.UPLOAD_MAX_AUDIO_MB, 50),
+    maxImageBytes: megabytes(process.env.UPLOAD_MAX_IMAGE_MB, 5),
+    // Per user, over song audio, covers and avatars
+    storageQuotaBytes: megabytes(process.env.USER_STORAGE_QUOTA_MB, 2048),
+    dailyUploadLimit: Number(process.env.USER_DAILY_UPLOAD_LIMIT) || 50,
+    // Resumable uploads: largest chunk per request, how long an idle upload is kept, and how
+    // many a user can have open at once
+    maxChunkBytes: megabytes(process.env.UPLOAD_MAX_CHUNK_MB, 4),
+    resumableTtlHours: Number(process.env.RESUMABLE_UPLOAD_TTL_HOURS) || 24,
+    maxOpenUploads: Number(process.env.USER_MAX_OPEN_UPLOADS) || 3,
+  },
   cloudinary: {
     cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
     apiKey: process.env.CLOUDINARY_API_KEY || '',
@@ -1,9 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt, { SignOptions, Secret } from 'jsonwebtoken';
 import { env } from '../config/env';
+import { DeviceSession } from '../models/DeviceSession';
 
 export interface AuthRequest extends Request {
   userId?: string;
+  sessionId?: string; // Device session the access token was issued for
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  sid?: string;
+}
+
+export interface RefreshTokenPayload {
+  sub: string;
+  jti: string;
+  sid: string;
+  exp: number;
 }
 
 const accessTokenOptions: SignOptions = {
@@ -14,15 +28,40 @@ const refreshTokenOptions: SignOptions = {
   expiresIn: env.refreshJwtExpiresIn as SignOptions['expiresIn'],
 };
 
-export function signAccessToken(userId: string) {
-  return jwt.sign({ sub: userId }, env.jwtSecret as Secret, accessTokenOptions);
+export function signAccessToken(userId: string, sessionId: string) {
+  return jwt.sign({ sub: userId, sid: sessionId }, env.jwtSecret as Secret, accessTokenOptions);
 }
 
-export function signRefreshToken(userId: string) {
-  return jwt.sign({ sub: userId }, env.refreshJwtSecret as Secret, refreshTokenOptions);
+export function signRefreshToken(userId: string, jti: string, sessionId: string) {
+  return jwt.sign({ sub: userId, sid: sessionId }, env.refreshJwtSecret as Secret, {
+    ...refreshTokenOptions,
+    jwtid: jti,
+  });
+}
+
+export function verifyRefreshToken(token: string) {
+  return jwt.verify(token, env.refreshJwtSecret) as RefreshTokenPayload;
+}
+
+// Verify an access token and make sure the device session it belongs to hasn't been revoked.
+// Returns null when the token should be rejected.
+export async function verifyAccessToken(token: string) {
+  let payload: AccessTokenPayload;
+  try {
+    payload = jwt.verify(token, env.jwtSecret) as AccessTokenPayload;
+  } catch {
+    return null;
+  }
+
+  if (payload.sid) {
+    const session = await DeviceSession.findById(payload.sid).select('revokedAt');
+    if (!session || session.revokedAt) return null;
+  }
+
+  return payload;
 }
 
-export function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+export async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const auth = req.headers.authorization;
   if (!auth || !auth.startsWith('Bearer ')) {
     return res.status(401).json({ message: 'Unauthorized' });
@@ -31,12 +70,24 @@ export function authMiddleware(req: AuthRequest, res: Response, next: NextFuncti
   const token = auth.slice('Bearer '.length);
 
   try {
-    const payload = jwt.verify(token, env.jwtSecret) as { sub: string };
+    const payload = await verifyAccessToken(token);
+    if (!payload) {
+      return res.status(401).json({ message: 'Invalid token' });
+    }
     req.userId = payload.sub;
+    req.sessionId = payload.sid;
     return next();
-  } catch {
-    return res.status(401).json({ message: 'Invalid token' });
+  } catch (e) {
+    return next(e);
   }
 }
 
-
+// Media elements and EventSource can't send headers, so these routes also accept the
+// access token as ?token=. Put it before authMiddleware/optionalAuthMiddleware.
+export function tokenFromQuery(req: Request, _res: Response, next: NextFunction) {
+  const { token } = req.query;
+  if (!req.headers.authorization && typeof token === 'string' && token) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  return next();
+}
@@ -1,9 +1,12 @@
 import { Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { env } from '../config/env';
-import { AuthRequest } from './auth';
+import { AuthRequest, verifyAccessToken } from './auth';
 
-export function optionalAuthMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+async function resolveOptionalAuth(
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+    rejectInvalidToken: boolean
+) {
     const auth = req.headers.authorization;
     if (!auth || !auth.startsWith('Bearer ')) {
         // No token provided, proceed as guest (no userId)
@@ -13,13 +16,28 @@ export function optionalAuthMiddleware(req: AuthRequest, res: Response, next: Ne
     const token = auth.slice('Bearer '.length);
 
     try {
-        const payload = jwt.verify(token, env.jwtSecret) as { sub: string };
+        const payload = await verifyAccessToken(token);
+        if (!payload) {
+            // Token exists but is invalid (or its device session was revoked)
+            if (!rejectInvalidToken) return next();
+            // Returning 401 helps the client know their session is stale.
+            return res.status(401).json({ message: 'Invalid token' });
+        }
         req.userId = payload.sub;
+        req.sessionId = payload.sid;
         return next();
-    } catch {
-        // Token exists but is invalid.
-        // We can either ignore it (guest) or return 401.
-        // Returning 401 helps the client know their session is stale.
-        return res.status(401).json({ message: 'Invalid token' });
+    } catch (e) {
+        return next(e);
     }
 }
+
+// Signed-in users get req.userId, guests pass through; a stale token gets a 401
+export function optionalAuthMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+    return resolveOptionalAuth(req, res, next, true);
+}
+
+// Like optionalAuthMiddleware, but a stale token is treated as a guest. For endpoints that
+// are open to everyone, where signing in only adds to the response.
+export function guestFallbackAuthMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+    return resolveOptionalAuth(req, res, next, false);
+}
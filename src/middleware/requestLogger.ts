@@ -0,0 +1,14 @@
+import { Request } from 'express';
+import morgan from 'morgan';
+
+// Routes using tokenFromQuery carry an access token in ?token=; keep it out of the logs
+export function redactQueryToken(url: string) {
+  return url.replace(/([?&]token=)[^&#]*/gi, '$1[redacted]');
+}
+
+morgan.token('url', (req) => {
+  const { originalUrl, url } = req as Request;
+  return redactQueryToken(originalUrl || url || '');
+});
+
+export const requestLogger = morgan('dev');
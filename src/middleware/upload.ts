@@ -0,0 +1,107 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import multer from 'multer';
+import { fromBuffer } from 'file-type';
+import { env } from '../config/env';
+import { MediaKind } from '../storage';
+
+export interface UploadField {
+  name: string;
+  kind: MediaKind;
+  maxCount?: number;
+}
+
+// Formats we accept, by what the file's bytes say it is (not the client's mimetype)
+const ALLOWED_TYPES: Record<MediaKind, string[]> = {
+  audio: [
+    'audio/mpeg',
+    'audio/mp4',
+    'audio/x-m4a',
+    'video/mp4', // M4A files with a generic MP4 brand
+    'audio/aac',
+    'audio/ogg',
+    'audio/opus',
+    'audio/vnd.wave',
+    'audio/x-flac',
+    'audio/aiff',
+  ],
+  image: ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/heic'],
+};
+
+export const maxUploadBytes = (kind: MediaKind) =>
+  kind === 'audio' ? env.uploads.maxAudioBytes : env.uploads.maxImageBytes;
+
+const describeSize = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`;
+
+// Sniff a buffer's real type. Returns its mimetype if it's an allowed `kind` of media, otherwise null.
+export async function detectMediaType(buffer: Buffer, kind: MediaKind) {
+  const type = await fromBuffer(buffer);
+  return type && ALLOWED_TYPES[kind].includes(type.mime) ? type.mime : null;
+}
+
+// Wrap a multer parser so oversized files get a 413 and files that aren't the field's kind
+// of media get a 415. Accepted files have their mimetype replaced by the detected one.
+function validated(parser: RequestHandler, fields: UploadField[]) {
+  const kindOf = (name: string | undefined) => fields.find((f) => f.name === name)?.kind;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    parser(req, res, async (err?: unknown) => {
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          const kind = kindOf(err.field) ?? 'audio';
+          return res
+            .status(413)
+            .json({ message: `${err.field} can be at most ${describeSize(maxUploadBytes(kind))}` });
+        }
+        return res.status(400).json({ message: err.message });
+      }
+      if (err) return next(err);
+
+      try {
+        const files: Express.Multer.File[] = req.file
+          ? [req.file]
+          : Object.values((req.files ?? {}) as Record<string, Express.Multer.File[]>).flat();
+
+        for (const file of files) {
+          const kind = kindOf(file.fieldname)!;
+          // multer's limit is the largest across fields, so check each field's own limit here
+          if (file.size > maxUploadBytes(kind)) {
+            return res.status(413).json({
+              message: `${file.fieldname} can be at most ${describeSize(maxUploadBytes(kind))}`,
+            });
+          }
+
+          const mimetype = await detectMediaType(file.buffer, kind);
+          if (!mimetype) {
+            return res
+              .status(415)
+              .json({ message: `${file.fieldname} must be a supported ${kind} file` });
+          }
+          file.mimetype = mimetype;
+        }
+        return next();
+      } catch (e) {
+        return next(e);
+      }
+    });
+  };
+}
+
+const memoryParser = (fields: UploadField[]) =>
+  multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: Math.max(...fields.map((f) => maxUploadBytes(f.kind))) },
+  });
+
+// Multipart upload of several fields into req.files
+export function uploadFields(fields: UploadField[]) {
+  const parser = memoryParser(fields).fields(
+    fields.map(({ name, maxCount = 1 }) => ({ name, maxCount }))
+  );
+  return validated(parser, fields);
+}
+
+// Multipart upload of a single file into req.file
+export function uploadSingle(name: string, kind: MediaKind) {
+  const fields = [{ name, kind }];
+  return validated(memoryParser(fields).single(name), fields);
+}
@@ -0,0 +1,41 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export type ChartPeriod = 'daily' | 'weekly';
+
+export interface ChartEntry {
+  song: Types.ObjectId;
+  rank: number; // 1-based
+  plays: number;
+  uniqueListeners: number;
+}
+
+// A category's top songs for one day or week, kept so later charts can show rank movement
+export interface IChartSnapshot extends Document {
+  period: ChartPeriod;
+  category: string; // '' for the chart across all categories
+  periodStart: Date; // UTC midnight, or UTC Monday midnight for weekly charts
+  entries: ChartEntry[];
+  updatedAt: Date;
+}
+
+const chartSnapshotSchema = new Schema<IChartSnapshot>(
+  {
+    period: { type: String, enum: ['daily', 'weekly'], required: true },
+    category: { type: String, default: '' },
+    periodStart: { type: Date, required: true },
+    entries: [
+      {
+        _id: false,
+        song: { type: Schema.Types.ObjectId, ref: 'Song', required: true },
+        rank: { type: Number, required: true },
+        plays: { type: Number, default: 0 },
+        uniqueListeners: { type: Number, default: 0 },
+      },
+    ],
+  },
+  { timestamps: true }
+);
+
+chartSnapshotSchema.index({ period: 1, category: 1, periodStart: -1 }, { unique: true });
+
+export const ChartSnapshot = model<IChartSnapshot>('ChartSnapshot', chartSnapshotSchema);
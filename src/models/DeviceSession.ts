@@ -0,0 +1,25 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface IDeviceSession extends Document {
+  user: Types.ObjectId;
+  userAgent: string;
+  ip: string;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const deviceSessionSchema = new Schema<IDeviceSession>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    userAgent: { type: String, default: '' },
+    ip: { type: String, default: '' },
+    lastUsedAt: { type: Date, default: Date.now },
+    revokedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+deviceSessionSchema.index({ user: 1, revokedAt: 1 });
+
+export const DeviceSession = model<IDeviceSession>('DeviceSession', deviceSessionSchema);
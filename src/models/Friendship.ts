@@ -0,0 +1,31 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export type FriendshipStatus = 'pending' | 'accepted';
+
+// A friend request, and once accepted, the friendship. There is at most one per pair of users.
+export interface IFriendship extends Document {
+  requester: Types.ObjectId; // User who sent the request
+  recipient: Types.ObjectId; // User who received it
+  pair: string; // Both user ids sorted and joined, so requests can't cross in each direction
+  status: FriendshipStatus;
+  acceptedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const friendshipSchema = new Schema<IFriendship>(
+  {
+    requester: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    recipient: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    pair: { type: String, required: true },
+    status: { type: String, enum: ['pending', 'accepted'], default: 'pending' },
+    acceptedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+friendshipSchema.index({ pair: 1 }, { unique: true });
+friendshipSchema.index({ requester: 1, status: 1 });
+friendshipSchema.index({ recipient: 1, status: 1 });
+
+export const Friendship = model<IFriendship>('Friendship', friendshipSchema);
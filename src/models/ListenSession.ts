@@ -1,62 +1,88 @@
 import { Schema, model, Types, Document } from 'mongoose';
 
+export type QueueMode = 'open' | 'approval' | 'host-only';
+
+export interface ListenSessionTrack {
+    id: string;
+    title: string;
+    artist: string;
+    uri: string;
+    artwork?: string;
+    duration?: number;
+}
+
+export interface QueueItem extends ListenSessionTrack {
+    _id: Types.ObjectId; // Stable id for per-item queue operations
+    addedBy?: Types.ObjectId;
+    addedAt?: Date;
+}
+
+export interface QueueSuggestion extends QueueItem {
+    votes: Types.ObjectId[]; // Users who upvoted the suggestion
+}
+
 export interface IListenSession extends Document {
     host: Types.ObjectId; // User who created the session
     participants: Types.ObjectId[]; // Users in the session
-    currentTrack?: {
-        id: string;
-        title: string;
-        artist: string;
-        uri: string;
-        artwork?: string;
-        duration?: number;
-    };
-    queue: Array<{
-        id: string;
-        title: string;
-        artist: string;
-        uri: string;
-        artwork?: string;
-        duration?: number;
-    }>;
+    members: Types.ObjectId[]; // Everyone who has ever joined, kept after they leave
+    currentTrack?: ListenSessionTrack;
+    queue: QueueItem[];
+    suggestions: QueueSuggestion[]; // Tracks waiting for host approval (approval mode)
+    queueMode: QueueMode; // Who may edit the queue
     playbackState: {
         position: number; // Current position in seconds
         isPlaying: boolean;
         updatedAt: Date;
+        version: number; // Bumped on every accepted /sync, used to drop stale updates
     };
     isActive: boolean;
     endedAt?: Date;
+    createdAt: Date;
 }
 
+const trackFields = {
+    id: String,
+    title: String,
+    artist: String,
+    uri: String,
+    artwork: String,
+    duration: Number,
+};
+
 const listenSessionSchema = new Schema<IListenSession>(
     {
         host: { type: Schema.Types.ObjectId, ref: 'User', required: true },
         participants: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+        members: [{ type: Schema.Types.ObjectId, ref: 'User' }],
         currentTrack: {
-            type: {
-                id: String,
-                title: String,
-                artist: String,
-                uri: String,
-                artwork: String,
-                duration: Number,
-            },
+            type: trackFields,
             required: false,
         },
         queue: [
             {
-                id: String,
-                title: String,
-                artist: String,
-                uri: String,
-                artwork: String,
-                duration: Number,
+                ...trackFields,
+                addedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+                addedAt: { type: Date, default: Date.now },
             },
         ],
+        suggestions: [
+            {
+                ...trackFields,
+                addedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+                addedAt: { type: Date, default: Date.now },
+                votes: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+            },
+        ],
+        queueMode: {
+            type: String,
+            enum: ['open', 'approval', 'host-only'],
+            default: 'host-only',
+        },
         playbackState: {
             position: { type: Number, default: 0 },
             isPlaying: { type: Boolean, default: false },
             updatedAt: { type: Date, default: Date.now },
+            version: { type: Number, default: 0 },
         },
         isActive: { type: Boolean, default: true },
         endedAt: { type: Date },
@@ -67,5 +93,6 @@ const listenSessionSchema = new Schema<IListenSession>(
 // Indexes for efficient queries
 listenSessionSchema.index({ host: 1, isActive: 1 });
 listenSessionSchema.index({ participants: 1, isActive: 1 });
+listenSessionSchema.index({ members: 1, createdAt: -1 });
 
 export const ListenSession = model<IListenSession>('ListenSession', listenSessionSchema);
@@ -0,0 +1,31 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface IListenSessionInvite extends Document {
+    code: string; // Short code shared as-is or inside a join link
+    session: Types.ObjectId;
+    createdBy: Types.ObjectId;
+    maxParticipants?: number; // Session size cap when joining through this code
+    expiresAt: Date;
+}
+
+const listenSessionInviteSchema = new Schema<IListenSessionInvite>(
+    {
+        code: { type: String, required: true, unique: true },
+        session: { type: Schema.Types.ObjectId, ref: 'ListenSession', required: true },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        maxParticipants: { type: Number },
+        expiresAt: {
+            type: Date,
+            default: () => new Date(Date.now() + 60 * 60 * 1000) // 1 hour
+        },
+    },
+    { timestamps: true }
+);
+
+listenSessionInviteSchema.index({ session: 1 });
+listenSessionInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ListenSessionInvite = model<IListenSessionInvite>(
+    'ListenSessionInvite',
+    listenSessionInviteSchema
+);
@@ -0,0 +1,34 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface IListenSessionMessage extends Document {
+    session: Types.ObjectId;
+    sender: Types.ObjectId;
+    type: 'chat' | 'reaction';
+    text?: string; // Chat messages
+    emoji?: string; // Reactions
+    // Track and playback position the message was sent at
+    trackId?: string;
+    position?: number; // Seconds into the track
+    createdAt: Date;
+}
+
+const listenSessionMessageSchema = new Schema<IListenSessionMessage>(
+    {
+        session: { type: Schema.Types.ObjectId, ref: 'ListenSession', required: true },
+        sender: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        type: { type: String, enum: ['chat', 'reaction'], required: true },
+        text: { type: String, trim: true },
+        emoji: { type: String },
+        trackId: { type: String },
+        position: { type: Number },
+    },
+    { timestamps: true }
+);
+
+// Newest-first pagination per session
+listenSessionMessageSchema.index({ session: 1, _id: -1 });
+
+export const ListenSessionMessage = model<IListenSessionMessage>(
+    'ListenSessionMessage',
+    listenSessionMessageSchema
+);
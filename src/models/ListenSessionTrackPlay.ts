@@ -0,0 +1,36 @@
+import { Schema, model, Types, Document } from 'mongoose';
+import { ListenSessionTrack } from './ListenSession';
+
+// One track played in a listen session, from when it started until the next track (or the end)
+export interface IListenSessionTrackPlay extends Document {
+    session: Types.ObjectId;
+    track: ListenSessionTrack;
+    startedAt: Date;
+    endedAt?: Date; // Unset while the track is still current
+    listeners: Types.ObjectId[]; // Participants present at any point while it played
+}
+
+const listenSessionTrackPlaySchema = new Schema<IListenSessionTrackPlay>(
+    {
+        session: { type: Schema.Types.ObjectId, ref: 'ListenSession', required: true },
+        track: {
+            id: String,
+            title: String,
+            artist: String,
+            uri: String,
+            artwork: String,
+            duration: Number,
+        },
+        startedAt: { type: Date, default: Date.now },
+        endedAt: { type: Date },
+        listeners: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    },
+    { timestamps: true }
+);
+
+listenSessionTrackPlaySchema.index({ session: 1, startedAt: 1 });
+
+export const ListenSessionTrackPlay = model<IListenSessionTrackPlay>(
+    'ListenSessionTrackPlay',
+    listenSessionTrackPlaySchema
+);
@@ -4,7 +4,7 @@ export interface IListenTogetherRequest extends Document {
     from: Types.ObjectId; // User who sent the request
     to: Types.ObjectId; // User who received the request
     status: 'pending' | 'accepted' | 'declined' | 'expired';
-    sessionId?: Types.ObjectId; // Created when accepted
+    sessionId?: Types.ObjectId; // Inviter's session at invite time, or the one created when accepted
     expiresAt: Date;
 }
 
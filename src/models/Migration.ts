@@ -0,0 +1,14 @@
+import { Schema, model, Document } from 'mongoose';
+
+// A one-off data migration that has finished, so it isn't run again (see utils/migrations)
+export interface IMigration extends Document {
+  name: string;
+  completedAt: Date;
+}
+
+const migrationSchema = new Schema<IMigration>({
+  name: { type: String, required: true, unique: true },
+  completedAt: { type: Date, required: true },
+});
+
+export const Migration = model<IMigration>('Migration', migrationSchema);
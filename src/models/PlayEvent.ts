@@ -0,0 +1,49 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export const PLAY_SOURCES = [
+  'feed',
+  'explore',
+  'session',
+  'playlist',
+  'profile',
+  'search',
+  'liked',
+  'other',
+] as const;
+export type PlaySource = (typeof PLAY_SOURCES)[number];
+
+// One listen of a song, updated with progress while it plays
+export interface IPlayEvent extends Document {
+  song: Types.ObjectId;
+  user?: Types.ObjectId; // Signed-in listener
+  anonymousId?: string; // Server-issued id for guests (see issueAnonymousId)
+  source: PlaySource;
+  listenedSeconds: number;
+  completed: boolean;
+  counted: boolean; // Passed the listen threshold and dedupe window, so it's in the song's playCount
+  countedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const playEventSchema = new Schema<IPlayEvent>(
+  {
+    song: { type: Schema.Types.ObjectId, ref: 'Song', required: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User' },
+    anonymousId: { type: String },
+    source: { type: String, enum: PLAY_SOURCES, default: 'other' },
+    listenedSeconds: { type: Number, default: 0 },
+    completed: { type: Boolean, default: false },
+    counted: { type: Boolean, default: false },
+    countedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// History, and the dedupe check for signed-in and anonymous listeners
+playEventSchema.index({ user: 1, counted: 1, _id: -1 });
+playEventSchema.index({ song: 1, user: 1, countedAt: -1 });
+playEventSchema.index({ song: 1, anonymousId: 1, countedAt: -1 });
+playEventSchema.index({ song: 1, createdAt: -1 });
+
+export const PlayEvent = model<IPlayEvent>('PlayEvent', playEventSchema);
@@ -0,0 +1,83 @@
+import { Schema, model, Types, Document } from 'mongoose';
+import { readableMediaUrl } from '../storage';
+import { searchKeysPlugin } from '../utils/search';
+
+export type PlaylistVisibility = 'public' | 'friends' | 'private';
+
+// Same shape as the tracks returned by GET /search
+export interface ExternalTrack {
+  id: string;
+  title: string;
+  artist: string;
+  artwork?: string;
+  duration?: number;
+  source: string;
+}
+
+export interface PlaylistItem {
+  _id: Types.ObjectId;
+  song?: Types.ObjectId; // Uploaded song...
+  external?: ExternalTrack; // ...or a track from an external source
+  addedAt: Date;
+}
+
+export interface IPlaylist extends Document {
+  owner: Types.ObjectId;
+  name: string;
+  description?: string;
+  coverUrl?: string;
+  coverPublicId?: string;
+  coverBytes?: number;
+  visibility: PlaylistVisibility;
+  items: Types.DocumentArray<PlaylistItem>;
+}
+
+const playlistSchema = new Schema<IPlaylist>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String, default: '' },
+    coverUrl: {
+      type: String,
+      get(this: IPlaylist, url?: string) {
+        return readableMediaUrl(url, this.coverPublicId);
+      },
+    },
+    coverPublicId: { type: String },
+    coverBytes: { type: Number },
+    visibility: {
+      type: String,
+      enum: ['public', 'friends', 'private'],
+      default: 'public',
+    },
+    items: [
+      {
+        song: { type: Schema.Types.ObjectId, ref: 'Song' },
+        external: {
+          type: {
+            id: String,
+            title: String,
+            artist: String,
+            artwork: String,
+            duration: Number,
+            source: String,
+          },
+          required: false,
+        },
+        addedAt: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    // Apply getters (signed media URLs) when serializing; virtuals stay off as before
+    toJSON: { getters: true, virtuals: false },
+    toObject: { getters: true, virtuals: false },
+  }
+);
+
+playlistSchema.index({ owner: 1, createdAt: -1 });
+playlistSchema.index({ name: 'text', description: 'text' }, { weights: { name: 10, description: 2 } });
+playlistSchema.plugin(searchKeysPlugin, { fields: ['name'] });
+
+export const Playlist = model<IPlaylist>('Playlist', playlistSchema);
@@ -0,0 +1,27 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  user: Types.ObjectId;
+  jti: string; // Unique id embedded in the signed refresh token
+  session: Types.ObjectId; // Device session (login) every rotated token belongs to
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string; // jti of the token issued when this one was rotated
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    jti: { type: String, required: true, unique: true },
+    session: { type: Schema.Types.ObjectId, ref: 'DeviceSession', required: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    replacedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+refreshTokenSchema.index({ session: 1 });
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = model<IRefreshToken>('RefreshToken', refreshTokenSchema);
@@ -0,0 +1,34 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export type ResumableUploadStatus = 'uploading' | 'finalizing';
+
+export interface IResumableUpload extends Document {
+  owner: Types.ObjectId;
+  filename: string;
+  size: number; // Total bytes the client announced
+  receivedBytes: number; // Bytes stored so far, always a prefix of the file
+  status: ResumableUploadStatus; // 'finalizing' while the Song is being created
+  reservedBytes: number; // Storage reserved from the owner's quota when the upload was started
+  // Pushed back on every chunk. Idle uploads are discarded by utils/resumableUploads, which
+  // releases their reservation; their chunks are dropped by TTL.
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const resumableUploadSchema = new Schema<IResumableUpload>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    filename: { type: String, required: true },
+    size: { type: Number, required: true },
+    receivedBytes: { type: Number, default: 0 },
+    status: { type: String, enum: ['uploading', 'finalizing'], default: 'uploading' },
+    reservedBytes: { type: Number, default: 0 },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+resumableUploadSchema.index({ owner: 1, expiresAt: 1 });
+resumableUploadSchema.index({ expiresAt: 1 });
+
+export const ResumableUpload = model<IResumableUpload>('ResumableUpload', resumableUploadSchema);
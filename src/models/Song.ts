@@ -1,15 +1,44 @@
 import { Schema, model, Types, Document } from 'mongoose';
+import { env } from '../config/env';
+import { readableMediaUrl } from '../storage';
+import { searchKeysPlugin } from '../utils/search';
 
 export interface ISong extends Document {
   owner: Types.ObjectId;
   title: string;
   category?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  duration?: number; // In ms, read from the audio file on upload
+  codec?: string;
+  bitrate?: number; // bits per second
+  sampleRate?: number; // Hz
   audioUrl: string;
   audioPublicId?: string;
+  audioBytes?: number;
   coverUrl?: string;
   coverPublicId?: string;
+  coverBytes?: number;
   isPublic: boolean;
   playCount: number;
+  likeCount: number;
+  commentCount: number;
+  trendingScore: number; // Log-space decayed play count, see utils/trending
+  createdAt: Date;
+}
+
+// The access-checked URL to play a song from
+export const songStreamUrl = (songId: string) =>
+  `${env.storage.publicBaseUrl}/songs/${songId}/stream`;
+
+// Where the audio is stored is never sent out: songs are played through the access-checked
+// /songs/:id/stream, so a saved link stops working once the song goes private.
+// audioUrl stays for one release as a deprecated alias of the stream URL, for older clients.
+function hideAudioLocation(_doc: unknown, ret: Record<string, unknown>) {
+  delete ret.audioPublicId;
+  if (ret.audioUrl !== undefined) ret.audioUrl = songStreamUrl(String(ret._id));
+  return ret;
 }
 
 const songSchema = new Schema<ISong>(
@@ -17,16 +46,47 @@ const songSchema = new Schema<ISong>(
     owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     title: { type: String, required: true, trim: true },
     category: { type: String, trim: true },
+    artist: { type: String, trim: true },
+    album: { type: String, trim: true },
+    genre: { type: String, trim: true },
+    duration: { type: Number },
+    codec: { type: String },
+    bitrate: { type: Number },
+    sampleRate: { type: Number },
     audioUrl: { type: String, required: true },
     audioPublicId: { type: String },
-    coverUrl: { type: String },
+    audioBytes: { type: Number },
+    coverUrl: {
+      type: String,
+      get(this: ISong, url?: string) {
+        return readableMediaUrl(url, this.coverPublicId);
+      },
+    },
     coverPublicId: { type: String },
+    coverBytes: { type: Number },
     isPublic: { type: Boolean, default: true },
     playCount: { type: Number, default: 0 },
+    likeCount: { type: Number, default: 0 },
+    commentCount: { type: Number, default: 0 },
+    trendingScore: { type: Number, default: 0 },
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    // Apply getters (signed media URLs) when serializing; virtuals stay off as before
+    toJSON: { getters: true, virtuals: false, transform: hideAudioLocation },
+    toObject: { getters: true, virtuals: false, transform: hideAudioLocation },
+  }
 );
 
+// Listings sort by one of these fields with _id as tie-breaker (see utils/songList)
+songSchema.index({ isPublic: 1, createdAt: -1, _id: -1 });
+songSchema.index({ isPublic: 1, playCount: -1, _id: -1 });
+songSchema.index({ isPublic: 1, trendingScore: -1, _id: -1 });
+songSchema.index({ isPublic: 1, category: 1, createdAt: -1, _id: -1 });
+songSchema.index({ owner: 1, createdAt: -1, _id: -1 });
+songSchema.index({ title: 'text', category: 'text' }, { weights: { title: 10, category: 3 } });
+songSchema.plugin(searchKeysPlugin, { fields: ['title', 'category'] });
+
 export const Song = model<ISong>('Song', songSchema);
 
 
@@ -0,0 +1,32 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface ISongComment extends Document {
+  song: Types.ObjectId;
+  author: Types.ObjectId;
+  parent?: Types.ObjectId; // Top-level comment this is a reply to (threads are one level deep)
+  text: string;
+  anchorSeconds?: number; // Optional playback position the comment refers to
+  replyCount: number;
+  editedAt?: Date;
+  deletedAt?: Date; // Soft-deleted comments keep their place in a thread that has replies
+  createdAt: Date;
+}
+
+const songCommentSchema = new Schema<ISongComment>(
+  {
+    song: { type: Schema.Types.ObjectId, ref: 'Song', required: true },
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    parent: { type: Schema.Types.ObjectId, ref: 'SongComment' },
+    text: { type: String, default: '', trim: true },
+    anchorSeconds: { type: Number, min: 0 },
+    replyCount: { type: Number, default: 0 },
+    editedAt: { type: Date },
+    deletedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+songCommentSchema.index({ song: 1, parent: 1, _id: -1 });
+songCommentSchema.index({ parent: 1, _id: 1 });
+
+export const SongComment = model<ISongComment>('SongComment', songCommentSchema);
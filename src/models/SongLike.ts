@@ -0,0 +1,21 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+export interface ISongLike extends Document {
+  user: Types.ObjectId;
+  song: Types.ObjectId;
+  createdAt: Date;
+}
+
+const songLikeSchema = new Schema<ISongLike>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    song: { type: Schema.Types.ObjectId, ref: 'Song', required: true },
+  },
+  { timestamps: true }
+);
+
+songLikeSchema.index({ user: 1, song: 1 }, { unique: true });
+songLikeSchema.index({ user: 1, _id: -1 });
+songLikeSchema.index({ song: 1 });
+
+export const SongLike = model<ISongLike>('SongLike', songLikeSchema);
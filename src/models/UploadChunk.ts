@@ -0,0 +1,21 @@
+import { Schema, model, Types, Document } from 'mongoose';
+
+// One piece of a resumable upload, kept until the upload is finalized or expires
+export interface IUploadChunk extends Document {
+  upload: Types.ObjectId;
+  offset: number; // Byte offset of this chunk in the file
+  data: Buffer;
+  expiresAt: Date; // Kept in step with the upload's expiresAt
+}
+
+const uploadChunkSchema = new Schema<IUploadChunk>({
+  upload: { type: Schema.Types.ObjectId, ref: 'ResumableUpload', required: true },
+  offset: { type: Number, required: true },
+  data: { type: Buffer, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+uploadChunkSchema.index({ upload: 1, offset: 1 }, { unique: true });
+uploadChunkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const UploadChunk = model<IUploadChunk>('UploadChunk', uploadChunkSchema);
@@ -1,4 +1,6 @@
 import { Schema, model, Types, Document } from 'mongoose';
+import { readableMediaUrl } from '../storage';
+import { searchKeysPlugin } from '../utils/search';
 
 export interface IUser extends Document {
   name: string;
@@ -10,10 +12,15 @@ export interface IUser extends Document {
   profileImage: {
     url: string;
     publicId: string;
+    bytes?: number;
   };
   uploadedSongs: Types.ObjectId[];
-  friends: Types.ObjectId[];
-  friendRequests: Types.ObjectId[];
+  storageUsedBytes: number; // Song audio, covers and images, checked against the storage quota
+  uploadWindow: {
+    startedAt?: Date; // Start of the current 24h upload-count window
+    count: number; // Uploads since startedAt
+  };
+  blockedUsers: Types.ObjectId[]; // Users this user has blocked
   listenTogetherRequests: Types.ObjectId[]; // Incoming listen together requests
   activeListenSession?: Types.ObjectId; // Current active session (if any)
 }
@@ -27,18 +34,39 @@ const userSchema = new Schema<IUser>(
     bio: { type: String, default: '' },
     isPrivate: { type: Boolean, default: false },
     profileImage: {
-      url: { type: String, default: '' },
+      url: {
+        type: String,
+        default: '',
+        get(this: IUser, url?: string) {
+          return readableMediaUrl(url, this.profileImage?.publicId);
+        },
+      },
       publicId: { type: String, default: '' },
+      bytes: { type: Number },
     },
     uploadedSongs: [{ type: Types.ObjectId, ref: 'Song' }],
-    friends: [{ type: Types.ObjectId, ref: 'User' }],
-    friendRequests: [{ type: Types.ObjectId, ref: 'User' }],
+    storageUsedBytes: { type: Number, default: 0 },
+    uploadWindow: {
+      startedAt: { type: Date },
+      count: { type: Number, default: 0 },
+    },
+    blockedUsers: [{ type: Types.ObjectId, ref: 'User' }],
     listenTogetherRequests: [{ type: Types.ObjectId, ref: 'ListenTogetherRequest' }],
     activeListenSession: { type: Types.ObjectId, ref: 'ListenSession' },
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    // Apply getters (signed media URLs) when serializing; virtuals stay off as before
+    toJSON: { getters: true, virtuals: false },
+    toObject: { getters: true, virtuals: false },
+  }
 );
 
+// Finding who has blocked a user
+userSchema.index({ blockedUsers: 1 });
+userSchema.index({ name: 'text', username: 'text' }, { weights: { username: 10, name: 8 } });
+userSchema.plugin(searchKeysPlugin, { fields: ['name', 'username'] });
+
 export const User = model<IUser>('User', userSchema);
 
 
@@ -1,10 +1,42 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import bcrypt from 'bcryptjs';
+import { randomUUID } from 'crypto';
 import { User } from '../models/User';
-import { signAccessToken, signRefreshToken } from '../middleware/auth';
+import { RefreshToken } from '../models/RefreshToken';
+import { DeviceSession } from '../models/DeviceSession';
+import { revokeDeviceSessions } from '../utils/deviceSessions';
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from '../middleware/auth';
 
 const router = Router();
 
+// Record a new login as a device session so it can be listed and revoked later
+async function createDeviceSession(userId: string, req: Request) {
+  return DeviceSession.create({
+    user: userId,
+    userAgent: req.get('user-agent') || '',
+    ip: req.ip || '',
+    lastUsedAt: new Date(),
+  });
+}
+
+// Sign an access/refresh pair for a device session and persist the refresh token
+// so it can be rotated or revoked.
+async function issueTokens(userId: string, sessionId: string) {
+  const jti = randomUUID();
+  const accessToken = signAccessToken(userId, sessionId);
+  const refreshToken = signRefreshToken(userId, jti, sessionId);
+  const { exp } = verifyRefreshToken(refreshToken);
+
+  await RefreshToken.create({
+    user: userId,
+    jti,
+    session: sessionId,
+    expiresAt: new Date(exp * 1000),
+  });
+
+  return { accessToken, refreshToken, jti };
+}
+
 router.post('/register', async (req, res) => {
   try {
     const { name, email, password, username } = req.body as {
@@ -43,8 +75,8 @@ router.post('/register', async (req, res) => {
       password: hashed,
     });
 
-    const accessToken = signAccessToken(user.id);
-    const refreshToken = signRefreshToken(user.id);
+    const deviceSession = await createDeviceSession(user.id, req);
+    const { accessToken, refreshToken } = await issueTokens(user.id, deviceSession.id);
 
     return res.status(201).json({
       user: {
@@ -83,8 +115,8 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
-    const accessToken = signAccessToken(user.id);
-    const refreshToken = signRefreshToken(user.id);
+    const deviceSession = await createDeviceSession(user.id, req);
+    const { accessToken, refreshToken } = await issueTokens(user.id, deviceSession.id);
 
     return res.json({
       user: {
@@ -105,6 +137,102 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Exchange a refresh token for a new access/refresh pair (the old refresh token is revoked)
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body as { refreshToken?: string };
+
+    if (!refreshToken) {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    let payload;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch {
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    if (!payload.jti || !payload.sid) {
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    // Claim the token atomically so two concurrent refreshes can't both rotate it
+    const stored = await RefreshToken.findOneAndUpdate(
+      { jti: payload.jti, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!stored) {
+      // A token that was already rotated or revoked is being replayed: treat the whole
+      // device session as compromised and force the user to log in again.
+      await revokeDeviceSessions({ _id: payload.sid });
+      return res.status(401).json({ message: 'Refresh token has been revoked' });
+    }
+
+    const [user, deviceSession] = await Promise.all([
+      User.findById(payload.sub).select('_id'),
+      DeviceSession.findById(stored.session),
+    ]);
+    if (!user) {
+      return res.status(401).json({ message: 'User not found' });
+    }
+    if (!deviceSession || deviceSession.revokedAt) {
+      return res.status(401).json({ message: 'Session has been revoked' });
+    }
+
+    deviceSession.lastUsedAt = new Date();
+    deviceSession.ip = req.ip || deviceSession.ip;
+    await deviceSession.save();
+
+    const tokens = await issueTokens(user.id, deviceSession.id);
+    stored.replacedBy = tokens.jti;
+    await stored.save();
+
+    return res.json({
+      tokens: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Sign out: revoke the device session the refresh token belongs to
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body as { refreshToken?: string };
+
+    if (!refreshToken) {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    let payload;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch {
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    if (!payload.sid) {
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    await revokeDeviceSessions({ _id: payload.sid, user: payload.sub });
+
+    return res.json({ message: 'Logged out' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 export default router;
 
 
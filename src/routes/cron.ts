@@ -0,0 +1,45 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, Router } from 'express';
+import { env } from '../config/env';
+import { refreshPopularity } from '../utils/popularityJob';
+import { expireResumableUploads } from '../utils/resumableUploads';
+
+// Scheduled jobs for deployments without a long-running process (see vercel.json crons).
+// The standalone server runs the same jobs on a timer instead.
+const router = Router();
+
+// Only the scheduler may call these: it sends `Authorization: Bearer <CRON_SECRET>`
+const requireCronSecret = (req: Request, res: Response, next: NextFunction) => {
+  const expected = Buffer.from(`Bearer ${env.cronSecret}`);
+  const given = Buffer.from(req.headers.authorization ?? '');
+  if (!env.cronSecret || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  return next();
+};
+
+// Recompute trending scores and refresh the charts
+router.get('/popularity', requireCronSecret, async (_req, res) => {
+  try {
+    await refreshPopularity();
+    return res.json({ message: 'Popularity refreshed' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Discard idle resumable uploads and release their quota reservations
+router.get('/uploads', requireCronSecret, async (_req, res) => {
+  try {
+    await expireResumableUploads();
+    return res.json({ message: 'Expired uploads discarded' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
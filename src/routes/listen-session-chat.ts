@@ -0,0 +1,147 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { Types } from 'mongoose';
+import { AuthRequest, authMiddleware } from '../middleware/auth';
+import { ListenSessionMessage } from '../models/ListenSessionMessage';
+import { publish } from '../utils/listenSessionEvents';
+import { loadParticipantSession } from '../utils/listenSessionMembership';
+import { playbackSnapshot } from '../utils/playbackClock';
+
+// Chat and reactions for a listen session, mounted at /listen-sessions/:sessionId/messages
+const router = Router({ mergeParams: true });
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_EMOJI_LENGTH = 16;
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// Per user, so people on the same network don't share a budget (runs after authMiddleware)
+const chatLimiter = rateLimit({
+    windowMs: 10 * 1000,
+    limit: 10,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    keyGenerator: (req) => (req as AuthRequest).userId ?? req.ip ?? '',
+    message: { message: 'You are sending messages too quickly' },
+});
+
+const reactionLimiter = rateLimit({
+    windowMs: 10 * 1000,
+    limit: 30,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    keyGenerator: (req) => (req as AuthRequest).userId ?? req.ip ?? '',
+    message: { message: 'You are reacting too quickly' },
+});
+
+// Get messages, newest first. Pass the last id you have as ?before= to load older ones.
+router.get('/', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res, true);
+        if (!session) return;
+
+        const { before, type } = req.query;
+        const limit = Math.min(Number(req.query.limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+        const filter: Record<string, unknown> = { session: session._id };
+        if (typeof before === 'string' && before) {
+            if (!Types.ObjectId.isValid(before)) {
+                return res.status(400).json({ message: 'Invalid cursor' });
+            }
+            filter._id = { $lt: new Types.ObjectId(before) };
+        }
+        if (type === 'chat' || type === 'reaction') {
+            filter.type = type;
+        }
+
+        const messages = await ListenSessionMessage.find(filter)
+            .sort({ _id: -1 })
+            .limit(limit + 1)
+            .populate('sender', 'name username profileImage');
+
+        const hasMore = messages.length > limit;
+        const page = hasMore ? messages.slice(0, limit) : messages;
+
+        return res.json({
+            messages: page,
+            nextCursor: hasMore ? page[page.length - 1].id : null,
+        });
+    } catch (error) {
+        console.error('Error fetching session messages:', error);
+        return res.status(500).json({ message: 'Failed to fetch messages' });
+    }
+});
+
+// Send a chat message
+router.post('/', authMiddleware, chatLimiter, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+
+        const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+        if (!text) {
+            return res.status(400).json({ message: 'Message text is required' });
+        }
+        if (text.length > MAX_MESSAGE_LENGTH) {
+            return res
+                .status(400)
+                .json({ message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+        }
+
+        const message = await ListenSessionMessage.create({
+            session: session._id,
+            sender: req.userId,
+            type: 'chat',
+            text,
+            trackId: session.currentTrack?.id,
+            position: playbackSnapshot(session).positionNow,
+        });
+        await message.populate('sender', 'name username profileImage');
+
+        publish(session.id, 'message', { message });
+
+        return res.status(201).json(message);
+    } catch (error) {
+        console.error('Error sending session message:', error);
+        return res.status(500).json({ message: 'Failed to send message' });
+    }
+});
+
+// React to the current moment of the current track
+router.post('/reactions', authMiddleware, reactionLimiter, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+
+        const { emoji, position } = req.body as { emoji?: string; position?: number };
+        if (typeof emoji !== 'string' || !emoji.trim()) {
+            return res.status(400).json({ message: 'Emoji is required' });
+        }
+        if (emoji.length > MAX_EMOJI_LENGTH) {
+            return res.status(400).json({ message: 'Reaction is too long' });
+        }
+
+        // Clients may pin the reaction to the position they saw; otherwise use the server clock
+        const message = await ListenSessionMessage.create({
+            session: session._id,
+            sender: req.userId,
+            type: 'reaction',
+            emoji: emoji.trim(),
+            trackId: session.currentTrack?.id,
+            position:
+                typeof position === 'number' && position >= 0
+                    ? position
+                    : playbackSnapshot(session).positionNow,
+        });
+        await message.populate('sender', 'name username profileImage');
+
+        publish(session.id, 'reaction', { message });
+
+        return res.status(201).json(message);
+    } catch (error) {
+        console.error('Error sending reaction:', error);
+        return res.status(500).json({ message: 'Failed to send reaction' });
+    }
+});
+
+export default router;
@@ -0,0 +1,379 @@
+import { Response, Router } from 'express';
+import { FilterQuery, PipelineStage, Types, UpdateQuery } from 'mongoose';
+import { AuthRequest, authMiddleware } from '../middleware/auth';
+import {
+    IListenSession,
+    ListenSession,
+    QueueItem,
+    QueueMode,
+    QueueSuggestion,
+} from '../models/ListenSession';
+import { publish } from '../utils/listenSessionEvents';
+import { loadParticipantSession } from '../utils/listenSessionMembership';
+
+// Per-item queue editing for a listen session, mounted at /listen-sessions/:sessionId/queue
+const router = Router({ mergeParams: true });
+
+const QUEUE_MODES: QueueMode[] = ['open', 'approval', 'host-only'];
+
+function isHost(session: IListenSession, userId: string) {
+    return session.host.toString() === userId;
+}
+
+// Whether the user may add to, remove from or reorder the queue directly
+function canEditQueue(session: IListenSession, userId: string) {
+    return isHost(session, userId) || session.queueMode === 'open';
+}
+
+function queuePayload(session: IListenSession) {
+    return {
+        queueMode: session.queueMode,
+        queue: session.queue,
+        // Most upvoted first, then oldest first
+        suggestions: [...session.suggestions].sort(
+            (a, b) =>
+                b.votes.length - a.votes.length ||
+                new Date(a.addedAt ?? 0).getTime() - new Date(b.addedAt ?? 0).getTime()
+        ),
+    };
+}
+
+// Matches sessions where the user may edit the queue directly (see canEditQueue)
+const queueEditableBy = (userId: string): FilterQuery<IListenSession> => ({
+    $or: [{ host: userId }, { queueMode: 'open' }],
+});
+
+// Apply one atomic update to the session and publish the new queue. The filter re-checks
+// whatever the request relied on (the item still exists, the user may still edit, ...), so
+// concurrent edits never overwrite each other. Sends a 409 and returns undefined if it no
+// longer matches.
+async function updateAndPublish(
+    res: Response,
+    session: IListenSession,
+    userId: string,
+    filter: FilterQuery<IListenSession>,
+    update: UpdateQuery<IListenSession> | PipelineStage[],
+    status = 200
+) {
+    const updated = await ListenSession.findOneAndUpdate(
+        { ...filter, _id: session._id, isActive: true, participants: userId },
+        update,
+        { new: true }
+    );
+    if (!updated) {
+        return res.status(409).json({ message: 'The queue changed, please try again' });
+    }
+
+    const payload = queuePayload(updated);
+    publish(updated.id, 'queue', payload);
+    return res.status(status).json(payload);
+}
+
+// Parse :itemId, or send a 404 and return null
+function parseItemId(req: AuthRequest, res: Response, message = 'Queue item not found') {
+    const { itemId } = req.params;
+    if (!Types.ObjectId.isValid(itemId)) {
+        res.status(404).json({ message });
+        return null;
+    }
+    return new Types.ObjectId(itemId);
+}
+
+// Get queue, pending suggestions and queue mode
+router.get('/', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+
+        return res.json(queuePayload(session));
+    } catch (error) {
+        console.error('Error fetching queue:', error);
+        return res.status(500).json({ message: 'Failed to fetch queue' });
+    }
+});
+
+// Change who may edit the queue (host only)
+router.put('/mode', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+
+        if (!isHost(session, req.userId!)) {
+            return res.status(403).json({ message: 'Only the host can change the queue mode' });
+        }
+
+        const { mode } = req.body as { mode?: QueueMode };
+        if (!mode || !QUEUE_MODES.includes(mode)) {
+            return res.status(400).json({ message: `Mode must be one of: ${QUEUE_MODES.join(', ')}` });
+        }
+
+        return await updateAndPublish(res, session, req.userId!, { host: req.userId }, {
+            $set: { queueMode: mode },
+        });
+    } catch (error) {
+        console.error('Error changing queue mode:', error);
+        return res.status(500).json({ message: 'Failed to change queue mode' });
+    }
+});
+
+// Add a track. Goes straight into the queue for the host (or anyone in open mode),
+// becomes a suggestion in approval mode, and is refused in host-only mode.
+router.post('/', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+        const userId = req.userId!;
+
+        const { id, title, artist, uri, artwork, duration } = req.body as {
+            id?: string;
+            title?: string;
+            artist?: string;
+            uri?: string;
+            artwork?: string;
+            duration?: number;
+        };
+
+        if (!id || !title || !uri) {
+            return res.status(400).json({ message: 'Track id, title and uri are required' });
+        }
+
+        const item: QueueItem = {
+            _id: new Types.ObjectId(),
+            id,
+            title,
+            artist: artist ?? '',
+            uri,
+            artwork,
+            duration,
+            addedBy: new Types.ObjectId(userId),
+            addedAt: new Date(),
+        };
+
+        if (canEditQueue(session, userId)) {
+            return await updateAndPublish(
+                res,
+                session,
+                userId,
+                queueEditableBy(userId),
+                { $push: { queue: item } },
+                201
+            );
+        }
+        if (session.queueMode === 'approval') {
+            const suggestion: QueueSuggestion = { ...item, votes: [new Types.ObjectId(userId)] };
+            return await updateAndPublish(
+                res,
+                session,
+                userId,
+                { queueMode: 'approval' },
+                { $push: { suggestions: suggestion } },
+                201
+            );
+        }
+        return res.status(403).json({ message: 'Only the host can edit the queue' });
+    } catch (error) {
+        console.error('Error adding to queue:', error);
+        return res.status(500).json({ message: 'Failed to add to queue' });
+    }
+});
+
+// Remove a queued track or a suggestion. Whoever added an item may always remove it.
+router.delete('/:itemId', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+        const userId = req.userId!;
+        const itemId = parseItemId(req, res);
+        if (!itemId) return;
+
+        const queued = session.queue.find((item) => item._id.equals(itemId));
+        const suggested = session.suggestions.find((item) => item._id.equals(itemId));
+        const item = queued ?? suggested;
+
+        if (!item) {
+            return res.status(404).json({ message: 'Queue item not found' });
+        }
+
+        const isOwnItem = item.addedBy?.toString() === userId;
+        const allowed = queued
+            ? canEditQueue(session, userId) || isOwnItem
+            : isHost(session, userId) || isOwnItem;
+        if (!allowed) {
+            return res.status(403).json({ message: 'Not authorized to remove this item' });
+        }
+
+        // Re-check the permission the removal relied on, in case the mode or host changed
+        if (queued) {
+            const filter = isOwnItem ? {} : queueEditableBy(userId);
+            return await updateAndPublish(
+                res,
+                session,
+                userId,
+                { ...filter, 'queue._id': itemId },
+                { $pull: { queue: { _id: itemId } } }
+            );
+        }
+        const filter = isOwnItem ? {} : { host: userId };
+        return await updateAndPublish(
+            res,
+            session,
+            userId,
+            { ...filter, 'suggestions._id': itemId },
+            { $pull: { suggestions: { _id: itemId } } }
+        );
+    } catch (error) {
+        console.error('Error removing from queue:', error);
+        return res.status(500).json({ message: 'Failed to remove from queue' });
+    }
+});
+
+// Move a queued track to a new position
+router.post('/:itemId/move', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+        const userId = req.userId!;
+        const itemId = parseItemId(req, res);
+        if (!itemId) return;
+        const { index } = req.body as { index?: number };
+
+        if (!canEditQueue(session, userId)) {
+            return res.status(403).json({ message: 'Only the host can reorder the queue' });
+        }
+
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 0) {
+            return res.status(400).json({ message: 'index must be a non-negative integer' });
+        }
+
+        if (!session.queue.some((item) => item._id.equals(itemId))) {
+            return res.status(404).json({ message: 'Queue item not found' });
+        }
+
+        // Reorder inside the database, against the queue as it is at write time
+        const rest = { $filter: { input: '$queue', cond: { $ne: ['$$this._id', itemId] } } };
+        const matches = { $filter: { input: '$queue', cond: { $eq: ['$$this._id', itemId] } } };
+        const moved = { $arrayElemAt: [matches, 0] };
+        const queue = {
+            $let: {
+                vars: { rest, moved },
+                in: {
+                    $concatArrays: [
+                        ...(index > 0 ? [{ $slice: ['$$rest', index] }] : []),
+                        ['$$moved'],
+                        { $slice: ['$$rest', index, { $add: [{ $size: '$$rest' }, 1] }] },
+                    ],
+                },
+            },
+        };
+
+        return await updateAndPublish(
+            res,
+            session,
+            userId,
+            { 'queue._id': itemId, ...queueEditableBy(userId) },
+            [{ $set: { queue } }]
+        );
+    } catch (error) {
+        console.error('Error reordering queue:', error);
+        return res.status(500).json({ message: 'Failed to reorder queue' });
+    }
+});
+
+// Upvote a suggestion
+router.post('/:itemId/vote', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+        const userId = req.userId!;
+        const itemId = parseItemId(req, res, 'Suggestion not found');
+        if (!itemId) return;
+
+        if (!session.suggestions.some((item) => item._id.equals(itemId))) {
+            return res.status(404).json({ message: 'Suggestion not found' });
+        }
+
+        return await updateAndPublish(
+            res,
+            session,
+            userId,
+            { 'suggestions._id': itemId },
+            { $addToSet: { 'suggestions.$.votes': new Types.ObjectId(userId) } }
+        );
+    } catch (error) {
+        console.error('Error voting on suggestion:', error);
+        return res.status(500).json({ message: 'Failed to vote' });
+    }
+});
+
+// Withdraw an upvote
+router.delete('/:itemId/vote', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+        const userId = req.userId!;
+        const itemId = parseItemId(req, res, 'Suggestion not found');
+        if (!itemId) return;
+
+        if (!session.suggestions.some((item) => item._id.equals(itemId))) {
+            return res.status(404).json({ message: 'Suggestion not found' });
+        }
+
+        return await updateAndPublish(
+            res,
+            session,
+            userId,
+            { 'suggestions._id': itemId },
+            { $pull: { 'suggestions.$.votes': new Types.ObjectId(userId) } }
+        );
+    } catch (error) {
+        console.error('Error removing vote:', error);
+        return res.status(500).json({ message: 'Failed to remove vote' });
+    }
+});
+
+// Approve a suggestion into the end of the queue (host only)
+router.post('/:itemId/approve', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const session = await loadParticipantSession(req, res);
+        if (!session) return;
+        const userId = req.userId!;
+        const itemId = parseItemId(req, res, 'Suggestion not found');
+        if (!itemId) return;
+
+        if (!isHost(session, userId)) {
+            return res.status(403).json({ message: 'Only the host can approve suggestions' });
+        }
+
+        const suggestion = session.suggestions.find((item) => item._id.equals(itemId));
+        if (!suggestion) {
+            return res.status(404).json({ message: 'Suggestion not found' });
+        }
+
+        // A suggestion's track never changes, only its votes, so it's safe to copy from here;
+        // the filter makes sure it's still pending when it moves
+        const { _id, id, title, artist, uri, artwork, duration, addedBy, addedAt } = suggestion;
+        const item: QueueItem = {
+            _id,
+            id,
+            title,
+            artist,
+            uri,
+            artwork,
+            duration,
+            addedBy,
+            addedAt,
+        };
+        return await updateAndPublish(
+            res,
+            session,
+            userId,
+            { 'suggestions._id': itemId, host: userId },
+            { $push: { queue: item }, $pull: { suggestions: { _id: itemId } } }
+        );
+    } catch (error) {
+        console.error('Error approving suggestion:', error);
+        return res.status(500).json({ message: 'Failed to approve suggestion' });
+    }
+});
+
+export default router;
@@ -1,10 +1,41 @@
 import { Router } from 'express';
-import { AuthRequest, authMiddleware } from '../middleware/auth';
+import { Types } from 'mongoose';
+import { AuthRequest, authMiddleware, tokenFromQuery } from '../middleware/auth';
 import { User } from '../models/User';
+import { randomInt } from 'crypto';
+import { env } from '../config/env';
 import { ListenSession } from '../models/ListenSession';
+import { ListenSessionInvite } from '../models/ListenSessionInvite';
+import { ListenSessionTrackPlay } from '../models/ListenSessionTrackPlay';
+import queueRoutes from './listen-session-queue';
+import chatRoutes from './listen-session-chat';
+import { publish, sendTo, subscribe } from '../utils/listenSessionEvents';
+import {
+    joinListenSession,
+    leaveListenSession,
+    scheduleHostDropCheck,
+    transferHost,
+} from '../utils/listenSessionMembership';
+import { playbackSnapshot } from '../utils/playbackClock';
+import { closeCurrentTrackPlay, recordTrackChange } from '../utils/listenSessionHistory';
 
 const router = Router();
 
+const DEFAULT_INVITE_MINUTES = 60;
+const MAX_INVITE_MINUTES = 7 * 24 * 60;
+
+// No 0/O or 1/I so codes survive being read out loud
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+function generateJoinCode() {
+    let code = '';
+    for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+        code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
 // Get current active session for user
 router.get('/active', authMiddleware, async (req: AuthRequest, res) => {
     try {
@@ -36,6 +67,113 @@ router.get('/active', authMiddleware, async (req: AuthRequest, res) => {
     }
 });
 
+// Past sessions the user took part in, newest first. Pass the last id as ?before= for older ones.
+router.get('/history', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const userId = req.userId;
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const { before } = req.query;
+        const limit = Math.min(Number(req.query.limit) || 20, 50);
+
+        // Sessions from before `members` existed only know their host and final participants
+        const filter: Record<string, unknown> = {
+            isActive: false,
+            $or: [{ members: userId }, { participants: userId }, { host: userId }],
+        };
+        if (typeof before === 'string' && before) {
+            if (!Types.ObjectId.isValid(before)) {
+                return res.status(400).json({ message: 'Invalid cursor' });
+            }
+            filter._id = { $lt: new Types.ObjectId(before) };
+        }
+
+        const sessions = await ListenSession.find(filter)
+            .sort({ _id: -1 })
+            .limit(limit + 1)
+            .select('host members participants currentTrack createdAt endedAt')
+            .populate('host', 'name username profileImage')
+            .populate('members', 'name username profileImage');
+
+        const hasMore = sessions.length > limit;
+        const page = hasMore ? sessions.slice(0, limit) : sessions;
+
+        const trackCounts = await ListenSessionTrackPlay.aggregate<{ _id: Types.ObjectId; count: number }>([
+            { $match: { session: { $in: page.map((s) => s._id) } } },
+            { $group: { _id: '$session', count: { $sum: 1 } } },
+        ]);
+        const countBySession = new Map(trackCounts.map((c) => [c._id.toString(), c.count]));
+
+        return res.json({
+            sessions: page.map((s) => ({
+                id: s.id,
+                host: s.host,
+                members: s.members,
+                lastTrack: s.currentTrack,
+                tracksPlayed: countBySession.get(s.id) ?? 0,
+                startedAt: s.createdAt,
+                endedAt: s.endedAt,
+            })),
+            nextCursor: hasMore ? page[page.length - 1].id : null,
+        });
+    } catch (error) {
+        console.error('Error fetching session history:', error);
+        return res.status(500).json({ message: 'Failed to fetch session history' });
+    }
+});
+
+// Clock sync (NTP-style): clients send their send time as ?t0= and estimate their offset as
+// ((serverReceivedAt - t0) + (serverSentAt - t3)) / 2, where t3 is when the reply arrived.
+router.get('/time', (req, res) => {
+    const serverReceivedAt = Date.now();
+    const t0 = Number(req.query.t0);
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.json({
+        t0: Number.isFinite(t0) ? t0 : null,
+        serverReceivedAt,
+        serverSentAt: Date.now(),
+    });
+});
+
+// Join a session with a join code
+router.post('/join/:code', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const code = req.params.code.trim().toUpperCase();
+        const userId = req.userId;
+
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const invite = await ListenSessionInvite.findOne({ code, expiresAt: { $gt: new Date() } });
+        if (!invite) {
+            return res.status(404).json({ message: 'Join code is invalid or has expired' });
+        }
+
+        const existing = await ListenSession.findById(invite.session);
+        if (!existing || !existing.isActive) {
+            return res.status(400).json({ message: 'Session is no longer active' });
+        }
+
+        const session = await joinListenSession(existing.id, userId, invite.maxParticipants);
+        if (!session) {
+            return res.status(409).json({ message: 'Session is full' });
+        }
+
+        return res.json({
+            message: 'Joined session',
+            sessionId: session._id,
+            session,
+        });
+    } catch (error) {
+        console.error('Error joining session:', error);
+        return res.status(500).json({ message: 'Failed to join session' });
+    }
+});
+
 // Get session details
 router.get('/:sessionId', authMiddleware, async (req: AuthRequest, res) => {
     try {
@@ -70,6 +208,71 @@ router.get('/:sessionId', authMiddleware, async (req: AuthRequest, res) => {
     }
 });
 
+// Recap of a session: tracks played, who was there, and how long people listened together
+router.get('/:sessionId/recap', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const { sessionId } = req.params;
+        const userId = req.userId;
+
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const session = await ListenSession.findById(sessionId);
+        if (!session) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+
+        // Anyone who was ever in the session can see its recap
+        const memberIds = new Set(
+            [session.host, ...session.participants, ...(session.members ?? [])].map((id) => id.toString())
+        );
+        if (!memberIds.has(userId)) {
+            return res.status(403).json({ message: 'You are not part of this session' });
+        }
+
+        const [plays, people] = await Promise.all([
+            ListenSessionTrackPlay.find({ session: session._id })
+                .sort({ startedAt: 1 })
+                .populate('listeners', 'name username profileImage'),
+            User.find({ _id: { $in: Array.from(memberIds) } }).select('name username profileImage'),
+        ]);
+
+        const sessionEnd = session.endedAt ?? new Date();
+        const tracks = plays.map((play) => {
+            const endedAt = play.endedAt ?? sessionEnd;
+            const listenedMs = endedAt.getTime() - play.startedAt.getTime();
+            return {
+                track: play.track,
+                startedAt: play.startedAt,
+                endedAt: play.endedAt,
+                listenedSeconds: Math.max(0, Math.round(listenedMs / 1000)),
+                listeners: play.listeners,
+            };
+        });
+
+        // Only count time when at least two people were listening
+        const totalListenedTogetherSeconds = tracks
+            .filter((t) => t.listeners.length >= 2)
+            .reduce((sum, t) => sum + t.listenedSeconds, 0);
+
+        return res.json({
+            sessionId: session.id,
+            host: session.host,
+            isActive: session.isActive,
+            startedAt: session.createdAt,
+            endedAt: session.endedAt,
+            participants: people,
+            tracks,
+            tracksPlayed: tracks.length,
+            totalListenedTogetherSeconds,
+        });
+    } catch (error) {
+        console.error('Error building session recap:', error);
+        return res.status(500).json({ message: 'Failed to build session recap' });
+    }
+});
+
 // Update playback state (only host can update)
 router.post('/:sessionId/sync', authMiddleware, async (req: AuthRequest, res) => {
     try {
@@ -94,32 +297,88 @@ router.post('/:sessionId/sync', authMiddleware, async (req: AuthRequest, res) =>
             return res.status(403).json({ message: 'Only the host can update playback state' });
         }
 
-        const { currentTrack, position, isPlaying, queue } = req.body;
+        const { currentTrack, position, isPlaying, queue, version } = req.body;
+
+        // Hosts may send their own increasing version; otherwise the server assigns the next one.
+        // Either way an update only applies if it is newer than what's stored, so requests that
+        // arrive out of order can't rewind playback.
+        const currentVersion = session.playbackState.version ?? 0;
+        const nextVersion = typeof version === 'number' ? version : currentVersion + 1;
+        if (nextVersion <= currentVersion) {
+            return res.status(409).json({
+                message: 'Stale playback update',
+                playbackState: playbackSnapshot(session),
+            });
+        }
+
+        const updates: Record<string, unknown> = {
+            'playbackState.updatedAt': new Date(),
+            'playbackState.version': nextVersion,
+        };
 
-        // Update playback state
+        const trackChanged = !!currentTrack && currentTrack.id !== session.currentTrack?.id;
         if (typeof position === 'number') {
-            session.playbackState.position = position;
+            updates['playbackState.position'] = position;
+        } else if (trackChanged) {
+            // A new track starts from the beginning
+            updates['playbackState.position'] = 0;
+        } else {
+            // Keep the clock continuous when only play/pause changes
+            updates['playbackState.position'] = playbackSnapshot(session).positionNow;
         }
 
         if (typeof isPlaying === 'boolean') {
-            session.playbackState.isPlaying = isPlaying;
+            updates['playbackState.isPlaying'] = isPlaying;
         }
 
         if (currentTrack) {
-            session.currentTrack = currentTrack;
+            updates.currentTrack = currentTrack;
+        }
+
+        if (Array.isArray(queue)) {
+            // Items keep their _id when sent back, so per-item queue operations stay valid
+            updates.queue = queue.map((item: Record<string, unknown>) => ({ addedBy: userId, ...item }));
         }
 
-        if (queue) {
-            session.queue = queue;
+        const updated = await ListenSession.findOneAndUpdate(
+            {
+                _id: session._id,
+                isActive: true,
+                host: userId,
+                'playbackState.version': { $not: { $gte: nextVersion } },
+            },
+            { $set: updates },
+            { new: true }
+        );
+
+        if (!updated) {
+            // Another update won the race (or the session changed under us)
+            const latest = await ListenSession.findById(sessionId);
+            return res.status(409).json({
+                message: 'Stale playback update',
+                playbackState: latest ? playbackSnapshot(latest) : undefined,
+            });
         }
 
-        session.playbackState.updatedAt = new Date();
-        await session.save();
+        if (currentTrack) {
+            if (trackChanged) {
+                await recordTrackChange(updated, currentTrack);
+            }
+            publish(sessionId, 'track', { currentTrack: updated.currentTrack });
+        }
+        if (Array.isArray(queue)) {
+            publish(sessionId, 'queue', {
+                queueMode: updated.queueMode,
+                queue: updated.queue,
+                suggestions: updated.suggestions,
+            });
+        }
+        publish(sessionId, 'playback', { playbackState: playbackSnapshot(updated) });
 
         return res.json({
             message: 'Playback state updated',
-            playbackState: session.playbackState,
-            currentTrack: session.currentTrack,
+            playbackState: playbackSnapshot(updated),
+            currentTrack: updated.currentTrack,
         });
     } catch (error) {
         console.error('Error updating playback state:', error);
@@ -150,8 +409,10 @@ router.get('/:sessionId/state', authMiddleware, async (req: AuthRequest, res) =>
 
         return res.json({
             currentTrack: session.currentTrack,
-            playbackState: session.playbackState,
+            playbackState: playbackSnapshot(session),
             queue: session.queue,
+            suggestions: session.suggestions,
+            queueMode: session.queueMode,
             host: session.host,
         });
     } catch (error) {
@@ -160,8 +421,8 @@ router.get('/:sessionId/state', authMiddleware, async (req: AuthRequest, res) =>
     }
 });
 
-// Leave session
-router.post('/:sessionId/leave', authMiddleware, async (req: AuthRequest, res) => {
+// Live event stream (SSE) for participants: playback, track, queue, membership, host, chat and end events
+router.get('/:sessionId/events', tokenFromQuery, authMiddleware, async (req: AuthRequest, res) => {
     try {
         const { sessionId } = req.params;
         const userId = req.userId;
@@ -170,39 +431,58 @@ router.post('/:sessionId/leave', authMiddleware, async (req: AuthRequest, res) =
             return res.status(401).json({ message: 'Unauthorized' });
         }
 
-        const [session, user] = await Promise.all([
-            ListenSession.findById(sessionId),
-            User.findById(userId),
-        ]);
-
+        const session = await ListenSession.findById(sessionId);
         if (!session) {
             return res.status(404).json({ message: 'Session not found' });
         }
 
-        if (!user) {
-            return res.status(404).json({ message: 'User not found' });
+        // Check if user is part of this session
+        const isParticipant = session.participants.some((p) => p.toString() === userId);
+        if (!isParticipant) {
+            return res.status(403).json({ message: 'You are not part of this session' });
         }
 
-        // Remove user from participants
-        session.participants = session.participants.filter((p) => p.toString() !== userId);
+        if (!session.isActive) {
+            return res.status(400).json({ message: 'Session is no longer active' });
+        }
 
-        // If host leaves or all participants left, end the session
-        if (session.host.toString() === userId || session.participants.length === 0) {
-            session.isActive = false;
-            session.endedAt = new Date();
+        subscribe(sessionId, userId, res);
+        res.on('close', () => scheduleHostDropCheck(sessionId, userId));
 
-            // Remove session from all participants
-            await User.updateMany(
-                { _id: { $in: session.participants } },
-                { $unset: { activeListenSession: 1 } }
-            );
+        // Start every client from the current state so it doesn't need to call /state first
+        sendTo(res, 'state', {
+            sessionId,
+            currentTrack: session.currentTrack,
+            playbackState: playbackSnapshot(session),
+            queue: session.queue,
+            suggestions: session.suggestions,
+            queueMode: session.queueMode,
+            host: session.host,
+            participants: session.participants,
+        });
+    } catch (error) {
+        console.error('Error opening session event stream:', error);
+        if (!res.headersSent) {
+            return res.status(500).json({ message: 'Failed to open event stream' });
         }
+        res.end();
+    }
+});
+
+// Leave session
+router.post('/:sessionId/leave', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const { sessionId } = req.params;
+        const userId = req.userId;
 
-        await session.save();
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
 
-        // Remove session from user
-        user.activeListenSession = undefined;
-        await user.save();
+        const session = await leaveListenSession(sessionId, userId);
+        if (!session) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
 
         return res.json({ message: 'Left session successfully' });
     } catch (error) {
@@ -211,6 +491,131 @@ router.post('/:sessionId/leave', authMiddleware, async (req: AuthRequest, res) =
     }
 });
 
+// Hand the host role to another participant (host only)
+router.post('/:sessionId/transfer-host', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const { sessionId } = req.params;
+        const userId = req.userId;
+        const { userId: newHostId } = req.body as { userId?: string };
+
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        if (!newHostId) {
+            return res.status(400).json({ message: 'userId is required' });
+        }
+
+        const session = await ListenSession.findById(sessionId);
+        if (!session) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+
+        if (!session.isActive) {
+            return res.status(400).json({ message: 'Session is no longer active' });
+        }
+
+        if (session.host.toString() !== userId) {
+            return res.status(403).json({ message: 'Only the host can transfer the host role' });
+        }
+
+        if (!session.participants.some((p) => p.toString() === newHostId)) {
+            return res.status(400).json({ message: 'New host must be part of this session' });
+        }
+
+        if (newHostId === userId) {
+            return res.status(400).json({ message: 'You are already the host' });
+        }
+
+        const updated = await transferHost(sessionId, userId, newHostId);
+        if (!updated) {
+            return res.status(409).json({ message: 'Host has already changed' });
+        }
+
+        return res.json({ message: 'Host transferred', host: updated.host });
+    } catch (error) {
+        console.error('Error transferring host:', error);
+        return res.status(500).json({ message: 'Failed to transfer host' });
+    }
+});
+
+// Create a short join code / link for the session (host only)
+router.post('/:sessionId/invite-code', authMiddleware, async (req: AuthRequest, res) => {
+    try {
+        const { sessionId } = req.params;
+        const userId = req.userId;
+
+        if (!userId) {
+            return res.status(401).json({ message: 'Unauthorized' });
+        }
+
+        const session = await ListenSession.findById(sessionId);
+        if (!session) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+
+        if (!session.isActive) {
+            return res.status(400).json({ message: 'Session is no longer active' });
+        }
+
+        if (session.host.toString() !== userId) {
+            return res.status(403).json({ message: 'Only the host can create join codes' });
+        }
+
+        const { expiresInMinutes, maxParticipants } = req.body as {
+            expiresInMinutes?: number;
+            maxParticipants?: number;
+        };
+
+        const minutes = Number(expiresInMinutes) || DEFAULT_INVITE_MINUTES;
+        if (minutes < 1 || minutes > MAX_INVITE_MINUTES) {
+            return res
+                .status(400)
+                .json({ message: `Expiry must be between 1 and ${MAX_INVITE_MINUTES} minutes` });
+        }
+
+        if (maxParticipants !== undefined && (!Number.isInteger(maxParticipants) || maxParticipants < 2)) {
+            return res.status(400).json({ message: 'maxParticipants must be an integer of at least 2' });
+        }
+
+        // Codes are short, so retry on the rare collision with a live one
+        let invite = null;
+        for (let attempt = 0; attempt < 5 && !invite; attempt++) {
+            try {
+                invite = await ListenSessionInvite.create({
+                    code: generateJoinCode(),
+                    session: session._id,
+                    createdBy: userId,
+                    maxParticipants,
+                    expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+                });
+            } catch (error: any) {
+                if (error?.code !== 11000) throw error;
+            }
+        }
+
+        if (!invite) {
+            return res.status(500).json({ message: 'Failed to create join code' });
+        }
+
+        return res.status(201).json({
+            code: invite.code,
+            link: `${env.joinLinkBaseUrl}/${invite.code}`,
+            expiresAt: invite.expiresAt,
+            maxParticipants: invite.maxParticipants,
+        });
+    } catch (error) {
+        console.error('Error creating join code:', error);
+        return res.status(500).json({ message: 'Failed to create join code' });
+    }
+});
+
+// Per-item queue editing, suggestions and voting
+router.use('/:sessionId/queue', queueRoutes);
+
+// Chat messages and reactions
+router.use('/:sessionId/messages', chatRoutes);
+
 // End session (host only)
 router.post('/:sessionId/end', authMiddleware, async (req: AuthRequest, res) => {
     try {
@@ -221,7 +626,9 @@ router.post('/:sessionId/end', authMiddleware, async (req: AuthRequest, res) =>
             return res.status(401).json({ message: 'Unauthorized' });
         }
 
-        const session = await ListenSession.findById(sessionId);
+        const session = Types.ObjectId.isValid(sessionId)
+            ? await ListenSession.findById(sessionId)
+            : null;
         if (!session) {
             return res.status(404).json({ message: 'Session not found' });
         }
@@ -230,17 +637,31 @@ router.post('/:sessionId/end', authMiddleware, async (req: AuthRequest, res) =>
         if (session.host.toString() !== userId) {
             return res.status(403).json({ message: 'Only the host can end the session' });
         }
+        if (!session.isActive) {
+            return res.status(409).json({ message: 'Session has already ended' });
+        }
 
-        session.isActive = false;
-        session.endedAt = new Date();
-        await session.save();
+        // Conditional, so a concurrent end, leave or host transfer can't be overwritten and
+        // the session is only ended (and announced) once
+        const endedAt = new Date();
+        const ended = await ListenSession.findOneAndUpdate(
+            { _id: session._id, host: userId, isActive: true },
+            { $set: { isActive: false, endedAt } },
+            { new: true }
+        );
+        if (!ended) {
+            return res.status(409).json({ message: 'Session has already ended or has a new host' });
+        }
+        await closeCurrentTrackPlay(ended._id as Types.ObjectId, endedAt);
 
         // Remove session from all participants
         await User.updateMany(
-            { _id: { $in: session.participants } },
+            { _id: { $in: ended.participants }, activeListenSession: ended._id },
             { $unset: { activeListenSession: 1 } }
         );
 
+        publish(sessionId, 'end', { reason: 'ended' });
+
         return res.json({ message: 'Session ended successfully' });
     } catch (error) {
         console.error('Error ending session:', error);
@@ -3,6 +3,10 @@ import { AuthRequest, authMiddleware } from '../middleware/auth';
 import { User } from '../models/User';
 import { ListenTogetherRequest } from '../models/ListenTogetherRequest';
 import { ListenSession } from '../models/ListenSession';
+import { publish } from '../utils/listenSessionEvents';
+import { joinListenSession, leaveListenSession } from '../utils/listenSessionMembership';
+import { areFriends } from '../utils/friendships';
+import { getFriendIds, isBlockedBetween } from '../utils/visibility';
 
 const router = Router();
 
@@ -26,13 +30,13 @@ router.post('/invite/:userId', authMiddleware, async (req: AuthRequest, res) =>
             User.findById(userId),
         ]);
 
-        if (!fromUser || !toUser) {
+        // Blocked users can't invite each other, and aren't told why
+        if (!fromUser || !toUser || (await isBlockedBetween(fromUserId, userId))) {
             return res.status(404).json({ message: 'User not found' });
         }
 
         // Check if they are friends
-        const areFriends = fromUser.friends.some((id) => id.toString() === userId);
-        if (!areFriends) {
+        if (!(await areFriends(fromUserId, userId))) {
             return res.status(403).json({ message: 'You can only invite friends to listen together' });
         }
 
@@ -47,11 +51,24 @@ router.post('/invite/:userId', authMiddleware, async (req: AuthRequest, res) =>
             return res.status(400).json({ message: 'Request already sent' });
         }
 
+        // If the inviter is already listening, the invitee joins that session instead of a new one
+        let sessionId;
+        if (fromUser.activeListenSession) {
+            const activeSession = await ListenSession.findById(fromUser.activeListenSession);
+            if (activeSession && activeSession.isActive) {
+                if (activeSession.participants.some((p) => p.toString() === userId)) {
+                    return res.status(400).json({ message: 'User is already in your session' });
+                }
+                sessionId = activeSession._id;
+            }
+        }
+
         // Create new request
         const request = new ListenTogetherRequest({
             from: fromUserId,
             to: userId,
             status: 'pending',
+            sessionId,
         });
 
         await request.save();
@@ -122,7 +139,6 @@ router.post('/requests/:requestId/accept', authMiddleware, async (req: AuthReque
             return res.status(400).json({ message: 'Request has expired' });
         }
 
-        // Check if either user is already in an active session
         const [hostUser, participantUser] = await Promise.all([
             User.findById(request.from),
             User.findById(userId),
@@ -132,52 +148,79 @@ router.post('/requests/:requestId/accept', authMiddleware, async (req: AuthReque
             return res.status(404).json({ message: 'User not found' });
         }
 
-        // End any existing active sessions for both users
-        if (hostUser.activeListenSession) {
-            await ListenSession.findByIdAndUpdate(hostUser.activeListenSession, {
-                isActive: false,
-                endedAt: new Date(),
-            });
+        // The invite may predate a block or unfriending
+        const inviterId = request.from.toString();
+        if ((await isBlockedBetween(inviterId, userId)) || !(await areFriends(inviterId, userId))) {
+            request.status = 'expired';
+            await request.save();
+            return res.status(403).json({ message: 'You can only listen together with friends' });
         }
 
-        if (participantUser.activeListenSession) {
-            await ListenSession.findByIdAndUpdate(participantUser.activeListenSession, {
-                isActive: false,
-                endedAt: new Date(),
-            });
+        // Join the session the invite was sent from, or whatever the inviter is listening to now.
+        // Only start a new session when the inviter isn't in one.
+        let targetSessionId = request.sessionId?.toString();
+        if (!targetSessionId && hostUser.activeListenSession) {
+            targetSessionId = hostUser.activeListenSession.toString();
         }
 
-        // Create new session
-        const session = new ListenSession({
-            host: request.from,
-            participants: [request.from, userId],
-            queue: [],
-            playbackState: {
-                position: 0,
-                isPlaying: false,
-                updatedAt: new Date(),
-            },
-            isActive: true,
-        });
+        let session = null;
+        if (targetSessionId) {
+            const existing = await ListenSession.findById(targetSessionId);
+            if (existing && existing.isActive) {
+                session = await joinListenSession(existing.id, userId);
+                if (!session) {
+                    // The session ended (or changed) since it was loaded; don't start another
+                    request.status = 'expired';
+                    await request.save();
+                    return res.status(409).json({ message: 'That session is no longer available' });
+                }
+            } else if (request.sessionId) {
+                request.status = 'expired';
+                await request.save();
+                return res.status(400).json({ message: 'That session has already ended' });
+            }
+        }
+
+        if (!session) {
+            // Leave whatever session the participant was in before starting a new one
+            if (participantUser.activeListenSession) {
+                await leaveListenSession(participantUser.activeListenSession.toString(), userId);
+            }
+
+            session = new ListenSession({
+                host: request.from,
+                participants: [request.from, userId],
+                members: [request.from, userId],
+                queue: [],
+                playbackState: {
+                    position: 0,
+                    isPlaying: false,
+                    updatedAt: new Date(),
+                },
+                isActive: true,
+            });
 
-        await session.save();
+            await session.save();
+
+            await User.updateMany(
+                { _id: { $in: [request.from, userId] } },
+                { $set: { activeListenSession: session._id } }
+            );
+
+            publish(session.id, 'join', { userId, participants: session.participants });
+        }
 
         // Update request
         request.status = 'accepted';
         request.sessionId = session._id as any;
         await request.save();
 
-        // Update both users' active session
-        hostUser.activeListenSession = session._id as any;
-        participantUser.activeListenSession = session._id as any;
-
         // Remove request from participant's incoming requests
-        participantUser.listenTogetherRequests = participantUser.listenTogetherRequests.filter(
-            (id) => id.toString() !== requestId
+        await User.updateOne(
+            { _id: userId },
+            { $pull: { listenTogetherRequests: request._id } }
         );
 
-        await Promise.all([hostUser.save(), participantUser.save()]);
-
         return res.json({
             message: 'Request accepted',
             sessionId: session._id,
@@ -235,16 +278,12 @@ router.get('/friends', authMiddleware, async (req: AuthRequest, res) => {
             return res.status(401).json({ message: 'Unauthorized' });
         }
 
-        const user = await User.findById(userId).populate(
-            'friends',
+        const friendIds = await getFriendIds(userId);
+        const friends = await User.find({ _id: { $in: Array.from(friendIds) } }).select(
             'name username profileImage isPrivate'
         );
 
-        if (!user) {
-            return res.status(404).json({ message: 'User not found' });
-        }
-
-        return res.json(user.friends);
+        return res.json(friends);
     } catch (error) {
         console.error('Error fetching friends:', error);
         return res.status(500).json({ message: 'Failed to fetch friends' });
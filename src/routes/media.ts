@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import storage from '../storage';
+import { contentTypeForKey, resolveLocalPath, verifyLocalSignature } from '../storage/local';
+
+const router = Router();
+
+// Serve files stored by the local storage driver. Other drivers serve their own URLs.
+// Every request needs a valid, unexpired ?expires=&signature= (see readableMediaUrl).
+router.get('/*', (req, res) => {
+  if (storage.name !== 'local') {
+    return res.status(404).json({ message: 'Not found' });
+  }
+
+  const key = (req.params as Record<string, string>)[0];
+  const file = key ? resolveLocalPath(key) : null;
+  if (!file) {
+    return res.status(404).json({ message: 'Not found' });
+  }
+
+  const { expires, signature } = req.query;
+  if (!verifyLocalSignature(key, expires, signature)) {
+    return res.status(403).json({ message: 'Link has expired or is invalid' });
+  }
+
+  // sendFile handles Range, ETag and Last-Modified
+  return res.sendFile(
+    file,
+    { headers: { 'Content-Type': contentTypeForKey(key) }, maxAge: '1h' },
+    (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: 'Not found' });
+      }
+    }
+  );
+});
+
+export default router;
@@ -0,0 +1,421 @@
+import { NextFunction, Request, Router, Response } from 'express';
+import { FilterQuery, PipelineStage, Types, UpdateQuery } from 'mongoose';
+import { AuthRequest, authMiddleware } from '../middleware/auth';
+import { optionalAuthMiddleware } from '../middleware/optionalAuth';
+import { uploadSingle } from '../middleware/upload';
+import { IPlaylist, Playlist, PlaylistItem, PlaylistVisibility } from '../models/Playlist';
+import { Song, ISong } from '../models/Song';
+import { deleteQuietly, StoredObject } from '../storage';
+import { withLikedByMe } from '../utils/songLikes';
+import { discardStored, freeStorage, storeWithinQuota } from '../utils/uploadQuota';
+import { canViewPlaylist, canViewSong, getFriendIds } from '../utils/visibility';
+
+const router = Router();
+
+const VISIBILITIES: PlaylistVisibility[] = ['public', 'friends', 'private'];
+
+const uploadCover = (userId: string, file: Express.Multer.File) =>
+  storeWithinQuota(userId, file.buffer, {
+    folder: 'audioly/playlist-covers',
+    kind: 'image',
+    filename: file.originalname,
+    contentType: file.mimetype,
+  });
+
+// Only use multer if content-type is multipart/form-data
+const optionalCoverUpload = (req: Request, res: Response, next: NextFunction) => {
+  if (req.headers['content-type']?.includes('multipart/form-data')) {
+    return uploadSingle('cover', 'image')(req, res, next);
+  }
+  return next();
+};
+
+// Playlist with song items populated, minus songs the viewer isn't allowed to see
+async function serializePlaylist(
+  playlist: IPlaylist,
+  viewerId: string | undefined,
+  friendIds: Set<string>
+) {
+  await playlist.populate({
+    path: 'items.song',
+    populate: { path: 'owner', select: 'name' },
+  });
+
+  const items = playlist.items.filter((item) => {
+    if (item.external) return true;
+    const song = item.song as unknown as ISong | null;
+    return !!song && canViewSong(song, viewerId, friendIds);
+  });
+
+  const songs = items.filter((item) => item.song).map((item) => item.song as unknown as ISong);
+  const annotated = new Map(
+    (await withLikedByMe(songs, viewerId)).map((song) => [song._id.toString(), song])
+  );
+
+  return {
+    ...playlist.toObject(),
+    items: items.map((item) => ({
+      ...item.toObject(),
+      song: item.song ? annotated.get((item.song as unknown as ISong).id) : undefined,
+    })),
+  };
+}
+
+// Load :id for its owner, or send the error response and return null
+async function loadOwnedPlaylist(req: AuthRequest, res: Response) {
+  const playlist = Types.ObjectId.isValid(req.params.id)
+    ? await Playlist.findById(req.params.id)
+    : null;
+  if (!playlist) {
+    res.status(404).json({ message: 'Playlist not found' });
+    return null;
+  }
+  if (playlist.owner.toString() !== req.userId) {
+    res.status(403).json({ message: 'Not authorized' });
+    return null;
+  }
+  return playlist;
+}
+
+// Apply one atomic update to the user's playlist and send it back. The filter re-checks what
+// the request relied on (e.g. the item still exists), so concurrent edits never overwrite each
+// other. Sends a 409 if it no longer matches.
+async function updateOwnedPlaylist(
+  res: Response,
+  playlist: IPlaylist,
+  filter: FilterQuery<IPlaylist>,
+  update: UpdateQuery<IPlaylist> | PipelineStage[],
+  status = 200
+) {
+  const updated = await Playlist.findOneAndUpdate(
+    { ...filter, _id: playlist._id, owner: playlist.owner },
+    update,
+    { new: true }
+  );
+  if (!updated) {
+    return res.status(409).json({ message: 'The playlist changed, please try again' });
+  }
+  return res.status(status).json(updated);
+}
+
+// Parse :itemId, or send a 404 and return null
+function parseItemId(req: AuthRequest, res: Response) {
+  const { itemId } = req.params;
+  if (!Types.ObjectId.isValid(itemId)) {
+    res.status(404).json({ message: 'Item not found' });
+    return null;
+  }
+  return new Types.ObjectId(itemId);
+}
+
+// Create playlist (optional cover)
+router.post('/', authMiddleware, optionalCoverUpload, async (req: AuthRequest, res) => {
+  try {
+    const { name, description, visibility } = req.body as {
+      name?: string;
+      description?: string;
+      visibility?: PlaylistVisibility;
+    };
+
+    if (!name?.trim()) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+
+    if (visibility && !VISIBILITIES.includes(visibility)) {
+      return res.status(400).json({ message: `Visibility must be one of: ${VISIBILITIES.join(', ')}` });
+    }
+
+    let cover: StoredObject | undefined;
+    if (req.file) {
+      const result = await uploadCover(req.userId!, req.file);
+      if ('error' in result) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
+      cover = result.stored;
+    }
+
+    const playlist = await Playlist.create({
+      owner: req.userId,
+      name: name.trim(),
+      description,
+      visibility,
+      coverUrl: cover?.url,
+      coverPublicId: cover?.key,
+      coverBytes: req.file?.size,
+      items: [],
+    }).catch(async (e) => {
+      if (cover) await discardStored(req.userId!, cover.key, req.file!.size);
+      throw e;
+    });
+
+    return res.status(201).json(playlist);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Current user's playlists
+router.get('/mine', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const playlists = await Playlist.find({ owner: req.userId }).sort({ updatedAt: -1 });
+    return res.json(playlists);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Playlists of another user that the viewer is allowed to see
+router.get('/user/:userId', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { userId } = req.params;
+    if (!Types.ObjectId.isValid(userId)) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const friendIds = await getFriendIds(req.userId);
+
+    const visibilities: PlaylistVisibility[] =
+      req.userId === userId
+        ? VISIBILITIES
+        : friendIds.has(userId)
+          ? ['public', 'friends']
+          : ['public'];
+
+    const playlists = await Playlist.find({
+      owner: userId,
+      visibility: { $in: visibilities },
+    }).sort({ updatedAt: -1 });
+    return res.json(playlists);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Single playlist with its items
+router.get('/:id', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const playlist = Types.ObjectId.isValid(req.params.id)
+      ? await Playlist.findById(req.params.id).populate('owner', 'name username')
+      : null;
+    if (!playlist) {
+      return res.status(404).json({ message: 'Playlist not found' });
+    }
+
+    const friendIds = await getFriendIds(req.userId);
+    if (!canViewPlaylist(playlist, req.userId, friendIds)) {
+      // Don't reveal that a hidden playlist exists
+      return res.status(404).json({ message: 'Playlist not found' });
+    }
+
+    return res.json(await serializePlaylist(playlist, req.userId, friendIds));
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Update playlist (name, description, visibility, cover)
+router.patch('/:id', authMiddleware, optionalCoverUpload, async (req: AuthRequest, res) => {
+  try {
+    const playlist = await loadOwnedPlaylist(req, res);
+    if (!playlist) return;
+
+    const { name, description, visibility } = req.body as {
+      name?: string;
+      description?: string;
+      visibility?: PlaylistVisibility;
+    };
+
+    if (name !== undefined) {
+      if (!name.trim()) return res.status(400).json({ message: 'Name cannot be empty' });
+      playlist.name = name.trim();
+    }
+    if (description !== undefined) playlist.description = description;
+    if (visibility !== undefined) {
+      if (!VISIBILITIES.includes(visibility)) {
+        return res
+          .status(400)
+          .json({ message: `Visibility must be one of: ${VISIBILITIES.join(', ')}` });
+      }
+      playlist.visibility = visibility;
+    }
+
+    // If new cover is uploaded, replace old one once the playlist points at it
+    const previousCover = { key: playlist.coverPublicId, bytes: playlist.coverBytes ?? 0 };
+    let cover: StoredObject | undefined;
+    if (req.file) {
+      const result = await uploadCover(req.userId!, req.file);
+      if ('error' in result) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
+      cover = result.stored;
+      playlist.coverUrl = cover.url;
+      playlist.coverPublicId = cover.key;
+      playlist.coverBytes = req.file.size;
+    }
+
+    await playlist.save().catch(async (e) => {
+      if (cover) await discardStored(req.userId!, cover.key, req.file!.size);
+      throw e;
+    });
+
+    if (cover && previousCover.key) {
+      await deleteQuietly(previousCover.key, 'image');
+      await freeStorage(req.userId!, previousCover.bytes);
+    }
+    return res.json(playlist);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete playlist
+router.delete('/:id', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const playlist = await loadOwnedPlaylist(req, res);
+    if (!playlist) return;
+
+    await Playlist.findByIdAndDelete(playlist.id);
+
+    await deleteQuietly(playlist.coverPublicId, 'image');
+    await freeStorage(req.userId!, playlist.coverBytes ?? 0);
+    return res.json({ message: 'Playlist deleted successfully' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Add an item: { songId } for an uploaded song, or { track } in the /search result shape
+router.post('/:id/items', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const playlist = await loadOwnedPlaylist(req, res);
+    if (!playlist) return;
+
+    const { songId, track } = req.body as {
+      songId?: string;
+      track?: {
+        id?: string;
+        title?: string;
+        artist?: string;
+        artwork?: string;
+        duration?: number;
+        source?: string;
+      };
+    };
+
+    let item: Omit<PlaylistItem, '_id'>;
+    if (songId) {
+      const song = Types.ObjectId.isValid(songId) ? await Song.findById(songId) : null;
+      const friendIds = await getFriendIds(req.userId);
+      if (!song || !canViewSong(song, req.userId, friendIds)) {
+        return res.status(404).json({ message: 'Song not found' });
+      }
+      item = { song: song._id as Types.ObjectId, addedAt: new Date() };
+    } else if (track) {
+      if (!track.id || !track.title || !track.source) {
+        return res.status(400).json({ message: 'Track id, title and source are required' });
+      }
+      item = {
+        external: {
+          id: track.id,
+          title: track.title,
+          artist: track.artist ?? '',
+          artwork: track.artwork,
+          duration: track.duration,
+          source: track.source,
+        },
+        addedAt: new Date(),
+      };
+    } else {
+      return res.status(400).json({ message: 'songId or track is required' });
+    }
+
+    return await updateOwnedPlaylist(res, playlist, {}, { $push: { items: item } }, 201);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Remove an item
+router.delete('/:id/items/:itemId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const playlist = await loadOwnedPlaylist(req, res);
+    if (!playlist) return;
+    const itemId = parseItemId(req, res);
+    if (!itemId) return;
+
+    if (!playlist.items.some((item) => item._id.equals(itemId))) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
+
+    return await updateOwnedPlaylist(
+      res,
+      playlist,
+      { 'items._id': itemId },
+      { $pull: { items: { _id: itemId } } }
+    );
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Move an item to a new position
+router.post('/:id/items/:itemId/move', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const playlist = await loadOwnedPlaylist(req, res);
+    if (!playlist) return;
+    const itemId = parseItemId(req, res);
+    if (!itemId) return;
+    const { index } = req.body as { index?: number };
+
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0) {
+      return res.status(400).json({ message: 'index must be a non-negative integer' });
+    }
+
+    if (!playlist.items.some((item) => item._id.equals(itemId))) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
+
+    // Reorder inside the database, against the items as they are at write time
+    const rest = { $filter: { input: '$items', cond: { $ne: ['$$this._id', itemId] } } };
+    const matches = { $filter: { input: '$items', cond: { $eq: ['$$this._id', itemId] } } };
+    const moved = { $arrayElemAt: [matches, 0] };
+    const items = {
+      $let: {
+        vars: { rest, moved },
+        in: {
+          $concatArrays: [
+            ...(index > 0 ? [{ $slice: ['$$rest', index] }] : []),
+            ['$$moved'],
+            { $slice: ['$$rest', index, { $add: [{ $size: '$$rest' }, 1] }] },
+          ],
+        },
+      },
+    };
+
+    return await updateOwnedPlaylist(res, playlist, { 'items._id': itemId }, [
+      { $set: { items } },
+    ]);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -3,15 +3,7 @@ import { Router, Request, Response } from 'express';
 // @ts-ignore - yt-search has no type declarations
 import yts from 'yt-search';
 import ytdl from '@distube/ytdl-core';
-
-// Type for yt-search video result
-interface YTVideo {
-    videoId: string;
-    title: string;
-    seconds: number;
-    thumbnail: string;
-    author: { name: string };
-}
+import { YTVideo, searchYouTubeTracks } from '../utils/youtube';
 
 const router = Router();
 
@@ -88,22 +80,13 @@ router.get('/search', async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Query is required' });
         }
 
-        const searchResults = await yts(q + ' audio');
+        // Return top 20 results
+        const tracks = await searchYouTubeTracks(q, 20);
 
-        if (!searchResults.videos) {
+        if (!tracks) {
             return res.status(404).json({ error: 'No results' });
         }
 
-        // Return top 20 results
-        const tracks = (searchResults.videos as YTVideo[]).slice(0, 20).map((v: YTVideo) => ({
-            id: v.videoId,
-            title: v.title,
-            artist: v.author.name,
-            duration: v.seconds * 1000,
-            artwork: v.thumbnail,
-            source: 'youtube'
-        }));
-
         return res.json(tracks);
 
     } catch (error) {
@@ -0,0 +1,131 @@
+import { Router } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { optionalAuthMiddleware } from '../middleware/optionalAuth';
+import { Song, ISong } from '../models/Song';
+import { User } from '../models/User';
+import { Playlist } from '../models/Playlist';
+import { normalizeSearchText, rankedSearch } from '../utils/search';
+import { withLikedByMe } from '../utils/songLikes';
+import { getBlockedIds, getFriendIds, visibleSongsFilter } from '../utils/visibility';
+import { searchYouTubeTracks } from '../utils/youtube';
+
+const router = Router();
+
+const SEARCH_TYPES = ['songs', 'users', 'playlists'] as const;
+type SearchType = (typeof SEARCH_TYPES)[number];
+
+const MAX_QUERY_LENGTH = 100;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Search the uploaded library: songs, users and playlists, grouped by type and ranked by relevance.
+// ?types=songs,users limits the groups, ?youtube=true also returns YouTube tracks.
+router.get('/search', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ message: 'Query is required' });
+    }
+    if (!normalizeSearchText(q)) {
+      return res.status(400).json({ message: 'Query must contain letters or numbers' });
+    }
+    if (q.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({ message: `Query can be at most ${MAX_QUERY_LENGTH} characters` });
+    }
+
+    const requested =
+      typeof req.query.types === 'string' && req.query.types
+        ? req.query.types.split(',').map((t) => t.trim())
+        : [...SEARCH_TYPES];
+    const types = new Set(
+      requested.filter((t): t is SearchType => (SEARCH_TYPES as readonly string[]).includes(t))
+    );
+    if (types.size === 0) {
+      return res.status(400).json({ message: `types must be any of: ${SEARCH_TYPES.join(', ')}` });
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const viewerId = req.userId;
+    const [friendIds, blockedIds] = await Promise.all([
+      getFriendIds(viewerId),
+      getBlockedIds(viewerId),
+    ]);
+
+    const [songHits, userHits, playlistHits, youtube] = await Promise.all([
+      types.has('songs')
+        ? rankedSearch(Song, {
+            q,
+            filter: visibleSongsFilter(viewerId, friendIds),
+            limit,
+          })
+        : [],
+      types.has('users')
+        ? rankedSearch(User, {
+            q,
+            filter: viewerId ? { _id: { $nin: [viewerId, ...blockedIds] } } : {},
+            limit,
+            select: 'name username profileImage isPrivate',
+          })
+        : [],
+      types.has('playlists')
+        ? rankedSearch(Playlist, {
+            q,
+            filter: {
+              $or: [
+                { visibility: 'public' },
+                ...(viewerId ? [{ owner: viewerId }] : []),
+                { visibility: 'friends', owner: { $in: Array.from(friendIds) } },
+              ],
+            },
+            limit,
+            select: 'owner name description coverUrl coverPublicId visibility items',
+          })
+        : [],
+      req.query.youtube === 'true'
+        ? searchYouTubeTracks(q, limit).catch((error) => {
+            // YouTube being unavailable shouldn't break library search
+            console.error('Error searching YouTube:', error);
+            return null;
+          })
+        : null,
+    ]);
+
+    const songs = songHits.map((hit) => hit.doc as ISong);
+    await Song.populate(songs, { path: 'owner', select: 'name' });
+    const annotatedSongs = await withLikedByMe(songs, viewerId);
+
+    await Playlist.populate(
+      playlistHits.map((hit) => hit.doc),
+      { path: 'owner', select: 'name username' }
+    );
+
+    return res.json({
+      songs: annotatedSongs.map((song, i) => ({ ...song, score: songHits[i].score })),
+      users: userHits.map(({ doc, score }) => ({
+        id: doc.id,
+        name: doc.name,
+        username: doc.username,
+        profileImage: doc.toJSON().profileImage,
+        isPrivate: doc.isPrivate,
+        score,
+      })),
+      playlists: playlistHits.map(({ doc, score }) => ({
+        id: doc.id,
+        owner: doc.owner,
+        name: doc.name,
+        description: doc.description,
+        coverUrl: doc.coverUrl,
+        visibility: doc.visibility,
+        itemCount: doc.items.length,
+        score,
+      })),
+      ...(youtube !== null ? { youtube } : {}),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,277 @@
+import { Router, Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthRequest, authMiddleware } from '../middleware/auth';
+import { optionalAuthMiddleware } from '../middleware/optionalAuth';
+import { Song } from '../models/Song';
+import { SongComment } from '../models/SongComment';
+import { canViewSong, getFriendIds } from '../utils/visibility';
+
+// Comments on a song, mounted at /songs/:songId/comments
+const router = Router({ mergeParams: true });
+
+const MAX_COMMENT_LENGTH = 1000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const AUTHOR_FIELDS = 'name username profileImage';
+
+// Load :songId if the viewer may see it, or send the error response and return null.
+// Hidden songs get a 404 so their existence isn't revealed.
+async function loadVisibleSong(req: AuthRequest, res: Response) {
+  const { songId } = req.params as { songId: string };
+
+  const song = Types.ObjectId.isValid(songId) ? await Song.findById(songId) : null;
+  const friendIds = await getFriendIds(req.userId);
+  if (!song || !canViewSong(song, req.userId, friendIds)) {
+    res.status(404).json({ message: 'Song not found' });
+    return null;
+  }
+  return song;
+}
+
+function parseLimit(value: unknown) {
+  return Math.min(Number(value) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+}
+
+// Top-level comments, newest first. Pass nextCursor as ?before= for older ones.
+router.get('/', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const song = await loadVisibleSong(req, res);
+    if (!song) return;
+
+    const { before } = req.query;
+    const limit = parseLimit(req.query.limit);
+
+    const filter: Record<string, unknown> = { song: song._id, parent: { $exists: false } };
+    if (typeof before === 'string' && before) {
+      if (!Types.ObjectId.isValid(before)) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+      filter._id = { $lt: new Types.ObjectId(before) };
+    }
+
+    const comments = await SongComment.find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .populate('author', AUTHOR_FIELDS);
+
+    const hasMore = comments.length > limit;
+    const page = hasMore ? comments.slice(0, limit) : comments;
+
+    return res.json({
+      comments: page,
+      commentCount: song.commentCount ?? 0,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Replies to a comment, oldest first. Pass nextCursor as ?after= for newer ones.
+router.get('/:commentId/replies', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const song = await loadVisibleSong(req, res);
+    if (!song) return;
+
+    const { commentId } = req.params;
+    const { after } = req.query;
+    const limit = parseLimit(req.query.limit);
+
+    if (!Types.ObjectId.isValid(commentId)) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    const filter: Record<string, unknown> = { song: song._id, parent: commentId };
+    if (typeof after === 'string' && after) {
+      if (!Types.ObjectId.isValid(after)) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+      filter._id = { $gt: new Types.ObjectId(after) };
+    }
+
+    const replies = await SongComment.find(filter)
+      .sort({ _id: 1 })
+      .limit(limit + 1)
+      .populate('author', AUTHOR_FIELDS);
+
+    const hasMore = replies.length > limit;
+    const page = hasMore ? replies.slice(0, limit) : replies;
+
+    return res.json({
+      replies: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Post a comment or a reply ({ text, parentId?, anchorSeconds? })
+router.post('/', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const song = await loadVisibleSong(req, res);
+    if (!song) return;
+
+    const { parentId, anchorSeconds } = req.body as { parentId?: string; anchorSeconds?: number };
+    const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+
+    if (!text) {
+      return res.status(400).json({ message: 'Comment text is required' });
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      return res
+        .status(400)
+        .json({ message: `Comments can be at most ${MAX_COMMENT_LENGTH} characters` });
+    }
+    if (anchorSeconds !== undefined && (typeof anchorSeconds !== 'number' || anchorSeconds < 0)) {
+      return res.status(400).json({ message: 'anchorSeconds must be a non-negative number' });
+    }
+
+    let parent = null;
+    if (parentId) {
+      parent = Types.ObjectId.isValid(parentId)
+        ? await SongComment.findOne({ _id: parentId, song: song._id })
+        : null;
+      if (!parent) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+      // Replying to a reply keeps the conversation in the same thread
+      if (parent.parent) {
+        parent = await SongComment.findById(parent.parent);
+        if (!parent) {
+          return res.status(404).json({ message: 'Comment not found' });
+        }
+      }
+    }
+
+    const comment = await SongComment.create({
+      song: song._id,
+      author: req.userId,
+      parent: parent?._id,
+      text,
+      anchorSeconds,
+    });
+
+    await Promise.all([
+      Song.updateOne({ _id: song._id }, { $inc: { commentCount: 1 } }),
+      parent ? SongComment.updateOne({ _id: parent._id }, { $inc: { replyCount: 1 } }) : null,
+    ]);
+
+    await comment.populate('author', AUTHOR_FIELDS);
+    return res.status(201).json(comment);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Edit my comment
+router.patch('/:commentId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const song = await loadVisibleSong(req, res);
+    if (!song) return;
+
+    const { commentId } = req.params;
+    const comment = Types.ObjectId.isValid(commentId)
+      ? await SongComment.findOne({ _id: commentId, song: song._id })
+      : null;
+    if (!comment || comment.deletedAt) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    if (comment.author.toString() !== req.userId) {
+      return res.status(403).json({ message: 'Not authorized' });
+    }
+
+    const { anchorSeconds } = req.body as { anchorSeconds?: number | null };
+    const text = typeof req.body.text === 'string' ? req.body.text.trim() : undefined;
+
+    if (text !== undefined) {
+      if (!text) {
+        return res.status(400).json({ message: 'Comment text is required' });
+      }
+      if (text.length > MAX_COMMENT_LENGTH) {
+        return res
+          .status(400)
+          .json({ message: `Comments can be at most ${MAX_COMMENT_LENGTH} characters` });
+      }
+      comment.text = text;
+    }
+
+    if (anchorSeconds === null) {
+      comment.anchorSeconds = undefined;
+    } else if (anchorSeconds !== undefined) {
+      if (typeof anchorSeconds !== 'number' || anchorSeconds < 0) {
+        return res.status(400).json({ message: 'anchorSeconds must be a non-negative number' });
+      }
+      comment.anchorSeconds = anchorSeconds;
+    }
+
+    comment.editedAt = new Date();
+    await comment.save();
+
+    await comment.populate('author', AUTHOR_FIELDS);
+    return res.json(comment);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete a comment (its author or the song owner)
+router.delete('/:commentId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const song = await loadVisibleSong(req, res);
+    if (!song) return;
+
+    const { commentId } = req.params;
+    const comment = Types.ObjectId.isValid(commentId)
+      ? await SongComment.findOne({ _id: commentId, song: song._id })
+      : null;
+    if (!comment || comment.deletedAt) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    const isAuthor = comment.author.toString() === req.userId;
+    const isSongOwner = song.owner.toString() === req.userId;
+    if (!isAuthor && !isSongOwner) {
+      return res.status(403).json({ message: 'Not authorized' });
+    }
+
+    if (comment.replyCount > 0) {
+      // Keep the thread readable: blank the comment but leave its replies in place
+      comment.text = '';
+      comment.anchorSeconds = undefined;
+      comment.deletedAt = new Date();
+      await comment.save();
+    } else {
+      await SongComment.deleteOne({ _id: comment._id });
+      if (comment.parent) {
+        await SongComment.updateOne(
+          { _id: comment.parent, replyCount: { $gt: 0 } },
+          { $inc: { replyCount: -1 } }
+        );
+      }
+    }
+
+    await Song.updateOne(
+      { _id: song._id, commentCount: { $gt: 0 } },
+      { $inc: { commentCount: -1 } }
+    );
+
+    return res.json({ message: 'Comment deleted' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
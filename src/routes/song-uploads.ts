@@ -0,0 +1,294 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import { AuthRequest, authMiddleware } from '../middleware/auth';
+import { detectMediaType, maxUploadBytes, uploadFields } from '../middleware/upload';
+import { IResumableUpload, ResumableUpload } from '../models/ResumableUpload';
+import { UploadChunk } from '../models/UploadChunk';
+import { withLikedByMe } from '../utils/songLikes';
+import { createUploadedSong, SongUploadFields } from '../utils/songUpload';
+import { discardResumableUpload } from '../utils/resumableUploads';
+import { releaseUpload, reserveUpload } from '../utils/uploadQuota';
+
+// Resumable audio uploads, mounted at /songs/uploads:
+//   POST /                      { filename, size } -> upload id
+//   PUT  /:uploadId?offset=N    raw bytes of the next chunk
+//   GET  /:uploadId             how many bytes the server has, to resume from
+//   POST /:uploadId/complete    same fields (and optional cover) as /songs/upload -> Song
+// Chunks live in MongoDB until the upload is completed; idle uploads expire. The announced size
+// is reserved from the user's storage quota for as long as the upload is open.
+const router = Router();
+
+// Serverless platforms reject larger request bodies (Vercel at about 4.5MB)
+const MAX_CHUNK_BYTES = Math.min(env.uploads.maxChunkBytes, 4 * 1024 * 1024);
+
+const uploadExpiry = () => new Date(Date.now() + env.uploads.resumableTtlHours * 60 * 60 * 1000);
+
+const describeUpload = (upload: IResumableUpload) => ({
+  id: upload.id,
+  filename: upload.filename,
+  size: upload.size,
+  offset: upload.receivedBytes,
+  complete: upload.receivedBytes === upload.size,
+  chunkSize: MAX_CHUNK_BYTES,
+  expiresAt: upload.expiresAt,
+});
+
+const rawChunk = express.raw({ type: () => true, limit: MAX_CHUNK_BYTES });
+
+// Raw body parser that answers oversized chunks with JSON instead of the default error page
+const parseChunk = (req: Request, res: Response, next: NextFunction) =>
+  rawChunk(req, res, (err?: unknown) => {
+    const tooLarge =
+      typeof err === 'object' && err !== null && 'type' in err && err.type === 'entity.too.large';
+    if (tooLarge) {
+      return res.status(413).json({ message: `Chunks can be at most ${MAX_CHUNK_BYTES} bytes` });
+    }
+    return next(err);
+  });
+
+// Load :uploadId for its owner, or send the error response and return null
+async function loadOwnedUpload(req: AuthRequest, res: Response) {
+  const { uploadId } = req.params;
+  const upload = Types.ObjectId.isValid(uploadId)
+    ? await ResumableUpload.findOne({ _id: uploadId, owner: req.userId })
+    : null;
+  if (!upload) {
+    res.status(404).json({ message: 'Upload not found' });
+    return null;
+  }
+  return upload;
+}
+
+// Start an upload ({ filename, size } in bytes)
+router.post('/', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { filename, size } = req.body as { filename?: string; size?: number };
+
+    if (!filename?.trim()) {
+      return res.status(400).json({ message: 'filename is required' });
+    }
+    if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) {
+      return res.status(400).json({ message: 'size must be a positive number of bytes' });
+    }
+    if (size > maxUploadBytes('audio')) {
+      return res
+        .status(413)
+        .json({ message: `audio can be at most ${maxUploadBytes('audio')} bytes` });
+    }
+
+    const openUploads = () =>
+      ResumableUpload.countDocuments({ owner: req.userId, expiresAt: { $gt: new Date() } });
+    const tooManyOpen = {
+      message: `You can have at most ${env.uploads.maxOpenUploads} uploads open at once`,
+    };
+    if ((await openUploads()) >= env.uploads.maxOpenUploads) {
+      return res.status(429).json(tooManyOpen);
+    }
+
+    // The song's daily upload count is taken when it's completed
+    const quotaError = await reserveUpload(req.userId!, size, false);
+    if (quotaError) {
+      return res.status(quotaError.status).json({ message: quotaError.message });
+    }
+
+    const upload = await ResumableUpload.create({
+      owner: req.userId,
+      filename: filename.trim(),
+      size,
+      reservedBytes: size,
+      expiresAt: uploadExpiry(),
+    }).catch(async (e) => {
+      await releaseUpload(req.userId!, size, false);
+      throw e;
+    });
+
+    // Parallel requests may all have passed the count above; the ones over the limit back out
+    if ((await openUploads()) > env.uploads.maxOpenUploads) {
+      await discardResumableUpload(upload._id);
+      return res.status(429).json(tooManyOpen);
+    }
+
+    return res.status(201).json(describeUpload(upload));
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Upload progress
+router.get('/:uploadId', authMiddleware, async (req: AuthRequest, res) => {
+  const upload = await loadOwnedUpload(req, res);
+  if (!upload) return;
+  return res.json(describeUpload(upload));
+});
+
+// Send the next chunk. ?offset= must equal the current offset, so a chunk is never applied twice;
+// on a 409 the response carries the offset to resume from.
+router.put('/:uploadId', authMiddleware, parseChunk, async (req: AuthRequest, res) => {
+  try {
+    const upload = await loadOwnedUpload(req, res);
+    if (!upload) return;
+
+    const offset = Number(req.query.offset);
+    const chunk = req.body as Buffer;
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ message: 'offset must be a non-negative integer' });
+    }
+    if (!Buffer.isBuffer(chunk) || chunk.length === 0) {
+      return res.status(400).json({ message: 'Chunk body is required' });
+    }
+    if (upload.status !== 'uploading') {
+      return res.status(409).json({ message: 'Upload is being completed' });
+    }
+    if (offset !== upload.receivedBytes) {
+      return res
+        .status(409)
+        .json({ message: 'Offset does not match the upload', offset: upload.receivedBytes });
+    }
+    if (offset + chunk.length > upload.size) {
+      return res.status(400).json({ message: 'Chunk runs past the announced size' });
+    }
+    // Reject non-audio early rather than after the whole file is sent
+    if (offset === 0 && !(await detectMediaType(chunk, 'audio'))) {
+      return res.status(415).json({ message: 'audio must be a supported audio file' });
+    }
+
+    const expiresAt = uploadExpiry();
+    await UploadChunk.findOneAndReplace(
+      { upload: upload._id, offset },
+      { upload: upload._id, offset, data: chunk, expiresAt },
+      { upsert: true }
+    );
+
+    // Only advance if nobody else did in the meantime
+    const advanced = await ResumableUpload.findOneAndUpdate(
+      { _id: upload._id, receivedBytes: offset, status: 'uploading' },
+      { $set: { receivedBytes: offset + chunk.length, expiresAt } },
+      { new: true }
+    );
+    if (!advanced) {
+      const current = await ResumableUpload.findById(upload._id);
+      return res
+        .status(409)
+        .json({ message: 'Offset does not match the upload', offset: current?.receivedBytes });
+    }
+
+    // Keep earlier chunks alive as long as the upload itself
+    await UploadChunk.updateMany({ upload: upload._id }, { $set: { expiresAt } });
+
+    return res.json(describeUpload(advanced));
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Finish the upload and create the Song, exactly like /songs/upload.
+// Takes the same form fields, as JSON or multipart with an optional cover.
+router.post(
+  '/:uploadId/complete',
+  authMiddleware,
+  (req, res, next) => {
+    // Only use multer if content-type is multipart/form-data
+    if (req.headers['content-type']?.includes('multipart/form-data')) {
+      return uploadFields([{ name: 'cover', kind: 'image' }])(req, res, next);
+    }
+    return next();
+  },
+  async (req: AuthRequest, res) => {
+    try {
+      const upload = await loadOwnedUpload(req, res);
+      if (!upload) return;
+
+      // Claim the upload so a repeated request can't create the song twice, and keep it from
+      // expiring while the song is created
+      const claimed = await ResumableUpload.findOneAndUpdate(
+        { _id: upload._id, status: 'uploading' },
+        { $set: { status: 'finalizing', expiresAt: uploadExpiry() } },
+        { new: true }
+      );
+      if (!claimed) {
+        return res.status(409).json({ message: 'Upload is already being completed' });
+      }
+
+      const release = (receivedBytes = claimed.receivedBytes) =>
+        ResumableUpload.updateOne(
+          { _id: claimed._id },
+          { $set: { status: 'uploading', receivedBytes } }
+        );
+
+      try {
+        const chunks = await UploadChunk.find({ upload: claimed._id }).sort({ offset: 1 });
+
+        // Use the longest gap-free run of chunks; anything after a gap has to be sent again
+        const parts: Buffer[] = [];
+        let received = 0;
+        for (const chunk of chunks) {
+          if (chunk.offset !== received) break;
+          parts.push(chunk.data);
+          received += chunk.data.length;
+        }
+        if (received !== claimed.size) {
+          const resumeAt = Math.min(received, claimed.receivedBytes);
+          await release(resumeAt);
+          return res.status(409).json({ message: 'Upload is incomplete', offset: resumeAt });
+        }
+
+        const buffer = Buffer.concat(parts);
+        const mimetype = await detectMediaType(buffer, 'audio');
+        if (!mimetype) {
+          await discardResumableUpload(claimed._id);
+          return res.status(415).json({ message: 'audio must be a supported audio file' });
+        }
+
+        const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+        const result = await createUploadedSong(
+          req.userId!,
+          { buffer, originalname: claimed.filename, mimetype, size: buffer.length },
+          files?.cover?.[0],
+          req.body as SongUploadFields,
+          { audioReserved: claimed.reservedBytes === claimed.size }
+        );
+        if ('error' in result) {
+          // Keep the bytes so the client can retry once it has room
+          await release();
+          return res.status(result.error.status).json({ message: result.error.message });
+        }
+
+        // The reserved bytes now count for the song
+        await discardResumableUpload(claimed._id, { keepReservation: true });
+
+        const [song] = await withLikedByMe([result.song], req.userId);
+        return res.status(201).json(song);
+      } catch (e) {
+        await release();
+        throw e;
+      }
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error(e);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+);
+
+// Abandon an upload
+router.delete('/:uploadId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const upload = await loadOwnedUpload(req, res);
+    if (!upload) return;
+
+    await discardResumableUpload(upload._id);
+    return res.json({ message: 'Upload cancelled' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
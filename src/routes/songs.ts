@@ -1,36 +1,64 @@
 import { Router } from 'express';
-import multer from 'multer';
-import { AuthRequest, authMiddleware } from '../middleware/auth';
-import { Song } from '../models/Song';
+import rateLimit from 'express-rate-limit';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream';
+import { Types } from 'mongoose';
+import { AuthRequest, authMiddleware, tokenFromQuery } from '../middleware/auth';
+import { guestFallbackAuthMiddleware, optionalAuthMiddleware } from '../middleware/optionalAuth';
+import { uploadFields } from '../middleware/upload';
+import { Song, ISong } from '../models/Song';
+import { PlayEvent, PLAY_SOURCES, PlaySource } from '../models/PlayEvent';
+import { ChartPeriod } from '../models/ChartSnapshot';
+import { SongLike } from '../models/SongLike';
+import { SongComment } from '../models/SongComment';
 import { User } from '../models/User';
-import cloudinary from '../config/cloudinary';
+import storage, { deleteQuietly } from '../storage';
+import { parseByteRange } from '../utils/byteRange';
+import { computePlayStats, parseStatsRange } from '../utils/playStats';
+import { issueAnonymousId, readAnonymousId, recordPlay } from '../utils/plays';
+import { withLikedByMe } from '../utils/songLikes';
+import { canViewSong, getBlockedIds, getFriendIds } from '../utils/visibility';
+import { parseSongListQuery } from '../utils/songList';
+import { addToTrendingScore, LIKE_WEIGHT, trendingPoint } from '../utils/trending';
+import { CHART_PERIODS, getChart } from '../utils/charts';
+import { recommendSongs } from '../utils/recommendations';
+import { freeStorage, storeWithinQuota } from '../utils/uploadQuota';
+import { createUploadedSong, SongUploadFields } from '../utils/songUpload';
+import commentRoutes from './song-comments';
+import resumableUploadRoutes from './song-uploads';
 
 const router = Router();
-const upload = multer({ storage: multer.memoryStorage() });
 
-const deriveTitleFromFilename = (filename: string | undefined) => {
-  const raw = (filename ?? '').trim();
-  const withoutExt = raw.replace(/\.[^/.]+$/, '');
-  const cleaned = withoutExt.replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
-  return cleaned || 'Untitled';
-};
+// Guest ids are cheap to ask for, so how many one address can get is limited
+const anonymousIdLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  limit: 10,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  message: { message: 'Too many guest ids requested, try again later' },
+});
+
+// Per listener (runs after optionalAuthMiddleware); guests are limited by address
+const playLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: 30,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  keyGenerator: (req) => (req as AuthRequest).userId ?? req.ip ?? '',
+  message: { message: 'You are reporting plays too quickly' },
+});
 
-// Upload audio (and optional cover) to Cloudinary and create Song
+// Upload audio (and optional cover) to media storage and create Song.
+// Blank title/artist/album/category fields and a missing cover are filled from the file's tags.
 router.post(
   '/upload',
   authMiddleware,
-  upload.fields([
-    { name: 'audio', maxCount: 1 },
-    { name: 'cover', maxCount: 1 },
+  uploadFields([
+    { name: 'audio', kind: 'audio' },
+    { name: 'cover', kind: 'image' },
   ]),
   async (req: AuthRequest, res) => {
     try {
-      const { title, category, isPublic } = req.body as {
-        title?: string;
-        category?: string;
-        isPublic?: string;
-      };
-
       const files = req.files as {
         [fieldname: string]: Express.Multer.File[];
       };
@@ -40,56 +68,17 @@ router.post(
         return res.status(400).json({ message: 'Audio file is required' });
       }
 
-      const resolvedTitle = title?.trim() ? title.trim() : deriveTitleFromFilename(audioFile.originalname);
-
-      const coverFile = files?.cover?.[0];
-
-      const uploadToCloudinary = async (
-        file: Express.Multer.File,
-        folder: string,
-        resourceType: 'image' | 'video' | 'auto'
-      ) =>
-        new Promise<{
-          url: string;
-          public_id: string;
-        }>((resolve, reject) => {
-          const stream = cloudinary.uploader.upload_stream(
-            {
-              folder,
-              resource_type: resourceType,
-            },
-            (error, result) => {
-              if (error || !result) return reject(error);
-              resolve({ url: result.secure_url, public_id: result.public_id });
-            }
-          );
-
-          stream.end(file.buffer);
-        });
-
-      const owner = await User.findById(req.userId);
-
-      const [audioUpload, coverUpload] = await Promise.all([
-        uploadToCloudinary(audioFile, 'audioly/audio', 'auto'),
-        coverFile ? uploadToCloudinary(coverFile, 'audioly/covers', 'image') : null,
-      ]);
-
-      const song = await Song.create({
-        owner: req.userId,
-        title: resolvedTitle,
-        category,
-        audioUrl: audioUpload.url,
-        audioPublicId: audioUpload.public_id,
-        coverUrl: coverUpload?.url,
-        coverPublicId: coverUpload?.public_id,
-        // If account is private, force songs to be private
-        isPublic: owner && owner.isPrivate ? false : isPublic ? isPublic === 'true' : true,
-      });
-
-      await User.findByIdAndUpdate(req.userId, {
-        $addToSet: { uploadedSongs: song.id },
-      });
+      const result = await createUploadedSong(
+        req.userId!,
+        audioFile,
+        files?.cover?.[0],
+        req.body as SongUploadFields
+      );
+      if ('error' in result) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
 
+      const [song] = await withLikedByMe([result.song], req.userId);
       return res.status(201).json(song);
     } catch (e) {
       // eslint-disable-next-line no-console
@@ -99,46 +88,227 @@ router.post(
   }
 );
 
-// Explore: all public songs
-router.get('/explore', async (_req, res) => {
-  const songs = await Song.find({ isPublic: true }).populate('owner', 'name');
-  return res.json(songs);
+// Resumable uploads for large files
+router.use('/uploads', resumableUploadRoutes);
+
+// Explore: public songs, paginated (see parseSongListQuery for sort, filters and cursor)
+router.get('/explore', guestFallbackAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const query = parseSongListQuery(req.query);
+    if ('error' in query) return res.status(400).json({ message: query.error });
+
+    const songs = await Song.find({ isPublic: true, ...query.filter })
+      .sort(query.sort)
+      .limit(query.limit + 1)
+      .populate('owner', 'name');
+
+    return res.json({
+      songs: await withLikedByMe(songs.slice(0, query.limit), req.userId),
+      nextCursor: query.nextCursor(songs),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
 });
 
-// Feed: own songs + friends' songs (public + private)
-router.get('/feed', authMiddleware, async (req: AuthRequest, res) => {
-  const me = await User.findById(req.userId);
-  if (!me) return res.status(404).json({ message: 'User not found' });
+// Trending: public songs by time-decayed plays, likes and listeners (same paging as explore)
+router.get('/trending', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const query = parseSongListQuery({ ...req.query, sort: 'trending' });
+    if ('error' in query) return res.status(400).json({ message: query.error });
+
+    const songs = await Song.find({ isPublic: true, ...query.filter })
+      .sort(query.sort)
+      .limit(query.limit + 1)
+      .populate('owner', 'name');
+
+    return res.json({
+      songs: await withLikedByMe(songs.slice(0, query.limit), req.userId),
+      nextCursor: query.nextCursor(songs),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Top 50 chart for today or this week (?period=daily|weekly&category=), with rank movement
+router.get('/charts', optionalAuthMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const period = (
+      typeof req.query.period === 'string' ? req.query.period : 'daily'
+    ) as ChartPeriod;
+    if (!CHART_PERIODS.includes(period)) {
+      return res
+        .status(400)
+        .json({ message: `period must be one of: ${CHART_PERIODS.join(', ')}` });
+    }
+    const category = typeof req.query.category === 'string' ? req.query.category.trim() : '';
+
+    const chart = await getChart(period, category);
+
+    // Songs made private since the chart was built drop out
+    const songs = await Song.find({
+      _id: { $in: chart.entries.map((entry) => entry.song) },
+      isPublic: true,
+    }).populate('owner', 'name');
+    const annotated = new Map(
+      (await withLikedByMe(songs, req.userId)).map((song) => [song._id.toString(), song])
+    );
+
+    return res.json({
+      ...chart,
+      entries: chart.entries
+        .filter((entry) => annotated.has(entry.song.toString()))
+        .map((entry) => ({ ...entry, song: annotated.get(entry.song.toString()) })),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-  const ids = [me.id, ...me.friends.map((f) => f.toString())];
+// Recommendations for me, each with a reason the app can show (?limit=, up to 50)
+router.get('/recommended', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 50);
+    const recommendations = await recommendSongs(req.userId!, limit);
 
-  const songs = await Song.find({ owner: { $in: ids } }).populate('owner', 'name');
-  return res.json(songs);
+    const songs = await withLikedByMe(
+      recommendations.map((r) => r.song),
+      req.userId
+    );
+    return res.json({
+      songs: songs.map((song, i) => ({
+        ...song,
+        reason: recommendations[i].reason,
+        score: recommendations[i].score,
+      })),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Feed: own songs + friends' songs (public + private)
+router.get('/feed', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const me = await User.findById(req.userId);
+    if (!me) return res.status(404).json({ message: 'User not found' });
+
+    const query = parseSongListQuery(req.query);
+    if ('error' in query) return res.status(400).json({ message: query.error });
+
+    // Leave out anyone blocked, in case a friendship outlived the block
+    const [friendIds, blockedIds] = await Promise.all([
+      getFriendIds(me.id),
+      getBlockedIds(me.id),
+    ]);
+    const ids = [me.id, ...Array.from(friendIds).filter((id) => !blockedIds.has(id))];
+
+    const songs = await Song.find({ owner: { $in: ids }, ...query.filter })
+      .sort(query.sort)
+      .limit(query.limit + 1)
+      .populate('owner', 'name');
+
+    return res.json({
+      songs: await withLikedByMe(songs.slice(0, query.limit), req.userId),
+      nextCursor: query.nextCursor(songs),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
 });
 
 // Current user's own uploads
 router.get('/mine', authMiddleware, async (req: AuthRequest, res) => {
   const songs = await Song.find({ owner: req.userId }).sort({ createdAt: -1 });
-  return res.json(songs);
+  return res.json(await withLikedByMe(songs, req.userId));
+});
+
+// Songs I've liked, most recently liked first. Pass nextCursor as ?before= for older ones.
+// Songs that have since become invisible to me (e.g. made private by a non-friend) are left out.
+router.get('/liked', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { before } = req.query;
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+
+    const filter: Record<string, unknown> = { user: new Types.ObjectId(req.userId) };
+    if (typeof before === 'string' && before) {
+      if (!Types.ObjectId.isValid(before)) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+      filter._id = { $lt: new Types.ObjectId(before) };
+    }
+
+    const friendIds = await getFriendIds(req.userId);
+    const visibleOwners = [req.userId!, ...friendIds].map((id) => new Types.ObjectId(id));
+
+    // Join the songs and drop invisible ones before limiting, so pages stay full
+    const likes = await SongLike.aggregate<{
+      _id: Types.ObjectId;
+      createdAt: Date;
+      song: ISong;
+    }>([
+      { $match: filter },
+      { $sort: { _id: -1 } },
+      {
+        $lookup: { from: Song.collection.name, localField: 'song', foreignField: '_id', as: 'song' },
+      },
+      { $unwind: '$song' },
+      { $match: { $or: [{ 'song.isPublic': true }, { 'song.owner': { $in: visibleOwners } }] } },
+      { $limit: limit + 1 },
+    ]);
+
+    const hasMore = likes.length > limit;
+    const page = hasMore ? likes.slice(0, limit) : likes;
+
+    const songs = page.map((like) => Song.hydrate(like.song));
+    await Song.populate(songs, { path: 'owner', select: 'name' });
+    const annotated = await withLikedByMe(songs, req.userId);
+
+    return res.json({
+      songs: annotated.map((song, i) => ({
+        ...song,
+        likeId: page[i]._id,
+        likedAt: page[i].createdAt,
+      })),
+      nextCursor: hasMore ? page[page.length - 1]._id : null,
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
 });
 
-// Update song (title, category, isPublic, cover)
+// Update song (title, category, artist, album, isPublic, cover)
 router.put(
   '/:id',
   authMiddleware,
   (req, res, next) => {
     // Only use multer if content-type is multipart/form-data
     if (req.headers['content-type']?.includes('multipart/form-data')) {
-      return upload.fields([{ name: 'cover', maxCount: 1 }])(req, res, next);
+      return uploadFields([{ name: 'cover', kind: 'image' }])(req, res, next);
     }
     return next();
   },
   async (req: AuthRequest, res) => {
     try {
       const { id } = req.params;
-      const { title, category, isPublic } = req.body as {
+      const { title, category, artist, album, isPublic } = req.body as {
         title?: string;
         category?: string;
+        artist?: string;
+        album?: string;
         isPublic?: string;
       };
 
@@ -156,60 +326,43 @@ router.put(
         [fieldname: string]: Express.Multer.File[];
       };
       const coverFile = files?.cover?.[0];
-
-      let coverUrl = song.coverUrl;
-      let coverPublicId = song.coverPublicId;
+      const updateData: any = {};
 
       // If new cover is uploaded, replace old one
       if (coverFile) {
-        const uploadToCloudinary = async (
-          file: Express.Multer.File,
-          folder: string,
-          resourceType: 'image' | 'video' | 'auto'
-        ) =>
-          new Promise<{
-            url: string;
-            public_id: string;
-          }>((resolve, reject) => {
-            const stream = cloudinary.uploader.upload_stream(
-              {
-                folder,
-                resource_type: resourceType,
-              },
-              (error, result) => {
-                if (error || !result) return reject(error);
-                resolve({ url: result.secure_url, public_id: result.public_id });
-              }
-            );
-            stream.end(file.buffer);
-          });
-
-        // Delete old cover from Cloudinary if exists
-        if (song.coverPublicId) {
-          try {
-            await cloudinary.uploader.destroy(song.coverPublicId);
-          } catch {
-            // ignore deletion errors
-          }
+        // A replacement cover needs room in the quota but isn't a new upload
+        const result = await storeWithinQuota(req.userId!, coverFile.buffer, {
+          folder: 'audioly/covers',
+          kind: 'image',
+          filename: coverFile.originalname,
+          contentType: coverFile.mimetype,
+        });
+        if ('error' in result) {
+          return res.status(result.error.status).json({ message: result.error.message });
         }
+        const coverUpload = result.stored;
 
-        const coverUpload = await uploadToCloudinary(coverFile, 'audioly/covers', 'image');
-        coverUrl = coverUpload.url;
-        coverPublicId = coverUpload.public_id;
+        // Delete old cover from storage if exists
+        await deleteQuietly(song.coverPublicId, 'image');
+        await freeStorage(req.userId!, song.coverBytes ?? 0);
+
+        updateData.coverUrl = coverUpload.url;
+        updateData.coverPublicId = coverUpload.key;
+        updateData.coverBytes = coverFile.size;
       }
 
       // Update song
-      const updateData: any = {};
       if (title !== undefined) updateData.title = title;
       if (category !== undefined) updateData.category = category;
+      if (artist !== undefined) updateData.artist = artist;
+      if (album !== undefined) updateData.album = album;
       if (isPublic !== undefined) {
         updateData.isPublic = typeof isPublic === 'string' ? isPublic === 'true' : isPublic;
       }
-      updateData.coverUrl = coverUrl;
-      updateData.coverPublicId = coverPublicId;
 
       const updatedSong = await Song.findByIdAndUpdate(id, updateData, { new: true });
-      return res.json(updatedSong);
+      const [result] = await withLikedByMe([updatedSong!], req.userId);
+      return res.json(result);
     } catch (e) {
       // eslint-disable-next-line no-console
       console.error(e);
@@ -218,19 +371,237 @@ router.put(
   }
 );
 
-// Increment play count (public endpoint, no auth required)
-router.post('/:id/play', async (req, res) => {
+// Stream a song's audio to anyone allowed to see it, with Range/206 support for seeking.
+// Audio elements can't send headers, so the access token may also be passed as ?token=
+// (and a guest's ?anonymousId=).
+router.get('/:id/stream', tokenFromQuery, optionalAuthMiddleware, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const song = await Song.findByIdAndUpdate(
-      id,
-      { $inc: { playCount: 1 } },
-      { new: true }
+    const song = Types.ObjectId.isValid(id) ? await Song.findById(id) : null;
+    const friendIds = await getFriendIds(req.userId);
+    if (!song || !canViewSong(song, req.userId, friendIds)) {
+      return res.status(404).json({ message: 'Song not found' });
+    }
+    if (!song.audioPublicId) {
+      // Nothing in our storage to stream from
+      return res.redirect(song.audioUrl);
+    }
+
+    // A stored object never changes (replacing audio means a new key), so the key is the ETag
+    const etag = `"${createHash('sha1').update(song.audioPublicId).digest('hex')}"`;
+    res.set({
+      ETag: etag,
+      'Accept-Ranges': 'bytes',
+      // Private: access depends on who is asking
+      'Cache-Control': 'private, max-age=86400',
+    });
+
+    const ifRange = req.headers['if-range'];
+    const rangeHeader = !ifRange || ifRange === etag ? req.headers.range : undefined;
+
+    if (!rangeHeader && req.headers['if-none-match'] === etag) {
+      return res.status(304).end();
+    }
+
+    const range = parseByteRange(rangeHeader, song.audioBytes);
+    if (range === 'unsatisfiable') {
+      if (song.audioBytes !== undefined) res.set('Content-Range', `bytes */${song.audioBytes}`);
+      return res.status(416).json({ message: 'Requested range not satisfiable' });
+    }
+
+    const object = await storage.stream(song.audioPublicId, 'audio', range ?? undefined);
+    if (object.start > object.end) {
+      object.body.destroy();
+      res.set('Content-Range', `bytes */${object.size}`);
+      return res.status(416).json({ message: 'Requested range not satisfiable' });
+    }
+
+    // Start a listen only for a plain request for the whole file. Players send Range requests
+    // (often several bytes=0- probes per listen), so they start one with POST /:id/play instead.
+    // The client reports progress for it with POST /:id/play and the X-Play-Id.
+    const listener = { userId: req.userId, anonymousId: readAnonymousId(req) };
+    if (!req.headers.range && (listener.userId || listener.anonymousId)) {
+      const source = PLAY_SOURCES.find((s) => s === req.query.source) ?? 'other';
+      const started = await recordPlay(song, listener, { source });
+      if (started) {
+        res.set({ 'X-Play-Id': started.event.id, 'Access-Control-Expose-Headers': 'X-Play-Id' });
+      }
+    }
+
+    // Storage may ignore the range and send the whole file, which is then a plain 200
+    const partial = !!range && !(object.start === 0 && object.end >= object.size - 1);
+    res.status(partial ? 206 : 200).set({
+      'Content-Type': object.contentType,
+      'Content-Length': String(object.end - object.start + 1),
+      ...(partial ? { 'Content-Range': `bytes ${object.start}-${object.end}/${object.size}` } : {}),
+    });
+
+    // Errors here are mostly the listener going away mid-stream
+    pipeline(object.body, res, () => undefined);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    if (!res.headersSent) {
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+});
+
+// A guest id to report plays with; keep it and send it as anonymousId (or X-Anonymous-Id)
+router.post('/anonymous-id', anonymousIdLimiter, (_req, res) => {
+  return res.status(201).json({ anonymousId: issueAnonymousId() });
+});
+
+// Report a listen: call without playId when playback starts, then with the returned playId
+// and the total listenedSeconds as it goes (and completed: true at the end).
+// It counts towards playCount once it passes the listen threshold, at most once per dedupe window.
+// Guests identify themselves with an anonymousId from POST /anonymous-id.
+router.post('/:id/play', optionalAuthMiddleware, playLimiter, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { playId, source, listenedSeconds, completed } = req.body as {
+      playId?: string;
+      source?: PlaySource;
+      listenedSeconds?: number;
+      completed?: boolean;
+    };
+
+    const listener = { userId: req.userId, anonymousId: readAnonymousId(req) };
+    if (!listener.userId && !listener.anonymousId) {
+      return res
+        .status(400)
+        .json({ message: 'Sign in or send an anonymousId from /songs/anonymous-id' });
+    }
+    if (source !== undefined && !PLAY_SOURCES.includes(source)) {
+      return res.status(400).json({ message: `source must be one of: ${PLAY_SOURCES.join(', ')}` });
+    }
+    if (listenedSeconds !== undefined && !(Number.isFinite(listenedSeconds) && listenedSeconds >= 0)) {
+      return res.status(400).json({ message: 'listenedSeconds must be a non-negative number' });
+    }
+
+    const song = Types.ObjectId.isValid(id) ? await Song.findById(id) : null;
+    const friendIds = await getFriendIds(req.userId);
+    if (!song || !canViewSong(song, req.userId, friendIds)) {
+      return res.status(404).json({ message: 'Song not found' });
+    }
+
+    const result = await recordPlay(
+      song,
+      listener,
+      { source, listenedSeconds, completed: completed === true },
+      playId
     );
+    if (!result) {
+      return res.status(404).json({ message: 'Play not found' });
+    }
+
+    return res.json({
+      playId: result.event.id,
+      counted: result.event.counted,
+      playCount: result.playCount,
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Listening stats for the song's owner (?from=&to=&tz=, see parseStatsRange)
+router.get('/:id/stats', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const song = Types.ObjectId.isValid(id) ? await Song.findById(id) : null;
+    if (!song) {
+      return res.status(404).json({ message: 'Song not found' });
+    }
+    if (song.owner.toString() !== req.userId) {
+      return res.status(403).json({ message: 'Not authorized' });
+    }
+
+    const range = parseStatsRange(req.query);
+    if ('error' in range) return res.status(400).json({ message: range.error });
+
+    const friendIds = await getFriendIds(req.userId);
+    // topSongs is only interesting across several songs
+    const { topSongs: _topSongs, ...stats } = await computePlayStats(
+      [song._id as Types.ObjectId],
+      friendIds,
+      range
+    );
+
+    return res.json({
+      song: { id: song.id, title: song.title, playCount: song.playCount },
+      ...stats,
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Threaded comments
+router.use('/:songId/comments', commentRoutes);
+
+// Like a song
+router.post('/:id/like', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const song = await Song.findById(req.params.id);
+    const friendIds = await getFriendIds(req.userId);
+    if (!song || !canViewSong(song, req.userId, friendIds)) {
+      return res.status(404).json({ message: 'Song not found' });
+    }
+
+    // Upsert so liking twice is a no-op and only the first like bumps the count
+    const result = await SongLike.updateOne(
+      { user: req.userId, song: song._id },
+      { $setOnInsert: { user: req.userId, song: song._id } },
+      { upsert: true }
+    );
+
+    let likeCount = song.likeCount ?? 0;
+    if (result.upsertedCount > 0) {
+      const updated = await Song.findByIdAndUpdate(
+        song._id,
+        [
+          { $set: { likeCount: { $add: [{ $ifNull: ['$likeCount', 0] }, 1] } } },
+          addToTrendingScore(trendingPoint(new Date(), LIKE_WEIGHT)),
+        ],
+        { new: true }
+      );
+      likeCount = updated?.likeCount ?? likeCount + 1;
+    }
+
+    return res.json({ likeCount, likedByMe: true });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Unlike a song
+router.delete('/:id/like', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const song = await Song.findById(req.params.id);
     if (!song) {
       return res.status(404).json({ message: 'Song not found' });
     }
-    return res.json({ playCount: song.playCount });
+
+    const result = await SongLike.deleteOne({ user: req.userId, song: song._id });
+
+    let likeCount = song.likeCount ?? 0;
+    if (result.deletedCount > 0) {
+      const updated = await Song.findOneAndUpdate(
+        { _id: song._id, likeCount: { $gt: 0 } },
+        { $inc: { likeCount: -1 } },
+        { new: true }
+      );
+      likeCount = updated?.likeCount ?? 0;
+    }
+
+    return res.json({ likeCount, likedByMe: false });
   } catch (e) {
     // eslint-disable-next-line no-console
     console.error(e);
@@ -255,17 +626,10 @@ router.delete('/:id', authMiddleware, async (req: AuthRequest, res) => {
       return res.status(403).json({ message: 'Not authorized' });
     }
 
-    // Delete files from Cloudinary
-    try {
-      if (song.audioPublicId) {
-        await cloudinary.uploader.destroy(song.audioPublicId, { resource_type: 'video' });
-      }
-      if (song.coverPublicId) {
-        await cloudinary.uploader.destroy(song.coverPublicId);
-      }
-    } catch {
-      // ignore deletion errors
-    }
+    // Delete files from storage
+    await deleteQuietly(song.audioPublicId, 'audio');
+    await deleteQuietly(song.coverPublicId, 'image');
+    await freeStorage(req.userId!, (song.audioBytes ?? 0) + (song.coverBytes ?? 0));
 
     // Remove from user's uploadedSongs
     await User.findByIdAndUpdate(req.userId, {
@@ -274,6 +638,11 @@ router.delete('/:id', authMiddleware, async (req: AuthRequest, res) => {
 
     // Delete song from database
     await Song.findByIdAndDelete(id);
+    await Promise.all([
+      SongLike.deleteMany({ song: id }),
+      SongComment.deleteMany({ song: id }),
+      PlayEvent.deleteMany({ song: id }),
+    ]);
 
     return res.json({ message: 'Song deleted successfully' });
   } catch (e) {
@@ -1,13 +1,36 @@
-import { Router } from 'express';
-import multer from 'multer';
+import { Response, Router } from 'express';
+import { FilterQuery, Types } from 'mongoose';
 import { AuthRequest, authMiddleware } from '../middleware/auth';
 import { optionalAuthMiddleware } from '../middleware/optionalAuth';
+import { uploadSingle } from '../middleware/upload';
 import { User } from '../models/User';
-import { Song } from '../models/Song';
-import cloudinary from '../config/cloudinary';
+import { Song, ISong } from '../models/Song';
+import { DeviceSession, IDeviceSession } from '../models/DeviceSession';
+import { ListenTogetherRequest } from '../models/ListenTogetherRequest';
+import { Friendship } from '../models/Friendship';
+import { PlayEvent } from '../models/PlayEvent';
+import { revokeDeviceSessions } from '../utils/deviceSessions';
+import {
+  connectionWith,
+  countFriends,
+  friendshipPair,
+  friendshipsOf,
+  otherUserOf,
+} from '../utils/friendships';
+import {
+  discardStored,
+  freeStorage,
+  storeWithinQuota,
+  uploadWindowResetsAt,
+} from '../utils/uploadQuota';
+import { withLikedByMe } from '../utils/songLikes';
+import { canViewSong, getBlockedIds, getFriendIds, isBlockedBetween } from '../utils/visibility';
+import { computePlayStats, parseStatsRange } from '../utils/playStats';
+import { wordPrefixFilter } from '../utils/search';
+import { deleteQuietly, StoredObject } from '../storage';
+import { env } from '../config/env';
 
 const router = Router();
-const upload = multer({ storage: multer.memoryStorage() });
 
 // Get current user profile
 router.get('/me', authMiddleware, async (req: AuthRequest, res) => {
@@ -50,7 +73,7 @@ router.patch('/me', authMiddleware, async (req: AuthRequest, res) => {
 router.patch(
   '/me/profile',
   authMiddleware,
-  upload.single('avatar'),
+  uploadSingle('avatar', 'image'),
   async (req: AuthRequest, res) => {
     try {
       const { name, isPrivate } = req.body as { name?: string; isPrivate?: string };
@@ -59,26 +82,26 @@ router.patch(
       if (name) updates.name = name;
       if (typeof isPrivate === 'string') updates.isPrivate = isPrivate === 'true';
 
+      // The old avatar is removed, and its bytes freed, once the new one is saved
+      const previous = req.file ? await User.findById(req.userId).select('profileImage') : null;
+      let avatar: StoredObject | undefined;
       if (req.file) {
         const file = req.file as Express.Multer.File;
-        const uploadResult = await new Promise<{ url: string; public_id: string }>((resolve, reject) => {
-          const stream = cloudinary.uploader.upload_stream(
-            {
-              folder: 'audioly/avatars',
-              resource_type: 'image',
-            },
-            (error, result) => {
-              if (error || !result) return reject(error);
-              resolve({ url: result.secure_url, public_id: result.public_id });
-            }
-          );
-
-          stream.end(file.buffer);
+        const result = await storeWithinQuota(req.userId!, file.buffer, {
+          folder: 'audioly/avatars',
+          kind: 'image',
+          filename: file.originalname,
+          contentType: file.mimetype,
         });
+        if ('error' in result) {
+          return res.status(result.error.status).json({ message: result.error.message });
+        }
+        avatar = result.stored;
 
         updates.profileImage = {
-          url: uploadResult.url,
-          publicId: uploadResult.public_id,
+          url: avatar.url,
+          publicId: avatar.key,
+          bytes: file.size,
         };
       }
 
@@ -86,9 +109,20 @@ router.patch(
         req.userId,
         { $set: updates },
         { new: true }
-      ).select('-password');
+      )
+        .select('-password')
+        .catch(async (e) => {
+          if (avatar) await discardStored(req.userId!, avatar.key, req.file!.size);
+          throw e;
+        });
 
       if (!user) return res.status(404).json({ message: 'User not found' });
+
+      const previousImage = previous?.profileImage;
+      if (avatar && previousImage?.publicId) {
+        await deleteQuietly(previousImage.publicId, 'image');
+        await freeStorage(req.userId!, previousImage.bytes ?? 0);
+      }
       return res.json(user);
     } catch (e) {
       // eslint-disable-next-line no-console
@@ -98,6 +132,181 @@ router.patch(
   }
 );
 
+// My storage usage and upload limits
+router.get('/me/storage', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const user = await User.findById(req.userId).select('storageUsedBytes uploadWindow');
+    if (!user) return res.status(404).json({ message: 'User not found' });
+
+    const { storageQuotaBytes, dailyUploadLimit, maxAudioBytes, maxImageBytes } = env.uploads;
+    const usedBytes = user.storageUsedBytes ?? 0;
+    const resetsAt = uploadWindowResetsAt(user.uploadWindow?.startedAt);
+    const uploadsToday = resetsAt ? user.uploadWindow.count : 0;
+
+    return res.json({
+      usedBytes,
+      quotaBytes: storageQuotaBytes,
+      remainingBytes: Math.max(storageQuotaBytes - usedBytes, 0),
+      songCount: await Song.countDocuments({ owner: req.userId }),
+      uploads: {
+        today: uploadsToday,
+        dailyLimit: dailyUploadLimit,
+        remaining: Math.max(dailyUploadLimit - uploadsToday, 0),
+        resetsAt,
+      },
+      maxFileBytes: { audio: maxAudioBytes, image: maxImageBytes },
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Recently played: my counted listens, newest first. Pass nextCursor as ?before= for older ones.
+// Songs that have since been deleted or hidden from me are left out.
+router.get('/me/history', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { before } = req.query;
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+
+    const filter: Record<string, unknown> = { user: req.userId, counted: true };
+    if (typeof before === 'string' && before) {
+      if (!Types.ObjectId.isValid(before)) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+      filter._id = { $lt: new Types.ObjectId(before) };
+    }
+
+    const plays = await PlayEvent.find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .populate({ path: 'song', populate: { path: 'owner', select: 'name' } });
+
+    const hasMore = plays.length > limit;
+    const page = hasMore ? plays.slice(0, limit) : plays;
+
+    const friendIds = await getFriendIds(req.userId);
+    const visible = page.filter((play) => {
+      const song = play.song as unknown as ISong | null;
+      return !!song && canViewSong(song, req.userId, friendIds);
+    });
+
+    const songs = await withLikedByMe(
+      visible.map((play) => play.song as unknown as ISong),
+      req.userId
+    );
+
+    return res.json({
+      plays: visible.map((play, i) => ({
+        id: play.id,
+        song: songs[i],
+        source: play.source,
+        listenedSeconds: play.listenedSeconds,
+        completed: play.completed,
+        playedAt: play.createdAt,
+      })),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Listening stats across all my uploads (?from=&to=&tz=, see parseStatsRange)
+router.get('/me/stats', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const range = parseStatsRange(req.query);
+    if ('error' in range) return res.status(400).json({ message: range.error });
+
+    const songs = await Song.find({ owner: req.userId }).select('title coverUrl playCount');
+    const friendIds = await getFriendIds(req.userId);
+    const stats = await computePlayStats(
+      songs.map((song) => song._id as Types.ObjectId),
+      friendIds,
+      range
+    );
+
+    const songsById = new Map(songs.map((song) => [song.id, song]));
+    return res.json({
+      songCount: songs.length,
+      ...stats,
+      topSongs: stats.topSongs.map(({ song, plays, uniqueListeners }) => ({
+        song: songsById.get(song.toString()),
+        plays,
+        uniqueListeners,
+      })),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// List my active device sessions (logins)
+router.get('/me/sessions', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await DeviceSession.find({
+      user: req.userId,
+      revokedAt: { $exists: false },
+    }).sort({ lastUsedAt: -1 });
+
+    return res.json(
+      sessions.map((s) => ({
+        id: s.id,
+        userAgent: s.userAgent,
+        ip: s.ip,
+        createdAt: s.createdAt,
+        lastUsedAt: s.lastUsedAt,
+        isCurrent: s.id === req.sessionId,
+      }))
+    );
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Sign out everywhere except the current device
+router.delete('/me/sessions', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const filter: FilterQuery<IDeviceSession> = { user: req.userId };
+    if (req.sessionId) {
+      filter._id = { $ne: req.sessionId };
+    }
+
+    const revoked = await revokeDeviceSessions(filter);
+    return res.json({ message: 'Other sessions revoked', revoked });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Revoke a single device session
+router.delete('/me/sessions/:sessionId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = Types.ObjectId.isValid(sessionId)
+      ? await DeviceSession.findOne({ _id: sessionId, user: req.userId })
+      : null;
+    if (!session) return res.status(404).json({ message: 'Session not found' });
+
+    await revokeDeviceSessions({ _id: session._id });
+    return res.json({ message: 'Session revoked' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // List all users with optional search and simple status
 router.get('/', optionalAuthMiddleware, async (req: AuthRequest, res) => {
   const { q } = req.query;
@@ -110,30 +319,37 @@ router.get('/', optionalAuthMiddleware, async (req: AuthRequest, res) => {
   // Build filter
   const filter: any = {};
   if (me) {
-    filter._id = { $ne: me.id };
+    // Users who blocked me, or whom I blocked, don't show up
+    const blockedIds = await getBlockedIds(me.id);
+    filter._id = { $nin: [me.id, ...blockedIds] };
   }
 
   if (typeof q === 'string' && q.trim()) {
-    const regex = new RegExp(q.trim(), 'i');
-    filter.$or = [
-      { name: regex },
-      { username: regex }
-    ];
+    // Names or usernames with a word starting with q, answered from the searchKeys index.
+    // Nothing matches a query with no letters or numbers.
+    const prefixFilter = wordPrefixFilter(q);
+    if (!prefixFilter) return res.json([]);
+    Object.assign(filter, prefixFilter);
   }
 
-  const friends = new Set(me?.friends.map((id) => id.toString()) || []);
-  const requests = new Set(me?.friendRequests.map((id) => id.toString()) || []);
+  // My friends, and requests I've sent or received, by the other user's id
+  const friendships = me ? await friendshipsOf(me.id) : [];
+  const connections = new Map(
+    friendships.map((f) => [otherUserOf(f, me!.id).toString(), f] as const)
+  );
 
   const users = await User.find(filter)
-    .select('name username profileImage isPrivate friends friendRequests')
+    .select('name username profileImage isPrivate')
     .sort({ createdAt: -1 }) // Newest users first or relevant sort
     .limit(50); // Limit results for performance
 
   const result = await Promise.all(users.map(async (u) => {
     const id = u.id;
-    const isFriend = friends.has(id);
-    const sentRequest = me ? u.friendRequests.some((rid) => rid.toString() === me!.id) : false;
-    const incomingRequest = requests.has(id);
+    const friendship = connections.get(id);
+    const isFriend = friendship?.status === 'accepted';
+    const pending = friendship?.status === 'pending';
+    const sentRequest = pending && friendship.requester.toString() === me!.id;
+    const incomingRequest = pending && !sentRequest;
 
     // Get song count (public only for non-friends/strangers usually, but request said 'uploaded')
     // Let's count public songs for consistency with what they can perform searching on
@@ -143,7 +359,7 @@ router.get('/', optionalAuthMiddleware, async (req: AuthRequest, res) => {
       id,
       name: u.name,
       username: u.username,
-      profileImage: u.profileImage,
+      profileImage: u.toJSON().profileImage,
       isPrivate: u.isPrivate,
       isFriend,
       sentRequest,
@@ -157,68 +373,255 @@ router.get('/', optionalAuthMiddleware, async (req: AuthRequest, res) => {
 
 // Get my friends and pending requests
 router.get('/friends', authMiddleware, async (req: AuthRequest, res) => {
-  const me = await User.findById(req.userId)
-    .populate('friends', 'name username email isPrivate profileImage')
-    .populate('friendRequests', 'name username email isPrivate profileImage');
-
-  if (!me) return res.status(404).json({ message: 'User not found' });
-
-  return res.json({
-    friends: me.friends,
-    incomingRequests: me.friendRequests,
-  });
+  try {
+    const userFields = 'name username email isPrivate profileImage';
+    const [accepted, incoming, outgoing] = await Promise.all([
+      friendshipsOf(req.userId!, 'accepted')
+        .sort({ acceptedAt: -1 })
+        .populate('requester recipient', userFields),
+      Friendship.find({ recipient: req.userId, status: 'pending' })
+        .sort({ createdAt: -1 })
+        .populate('requester', userFields),
+      Friendship.find({ requester: req.userId, status: 'pending' })
+        .sort({ createdAt: -1 })
+        .populate('recipient', userFields),
+    ]);
+
+    return res.json({
+      friends: accepted.map((f) => otherUserOf(f, req.userId!)),
+      incomingRequests: incoming.map((f) => f.requester),
+      outgoingRequests: outgoing.map((f) => f.recipient),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
 });
 
-// Send friend (follow) request
-router.post('/request/:userId', authMiddleware, async (req: AuthRequest, res) => {
+// Load :userId as the other side of a friend action, or send the error response and return null
+async function loadOtherUser(req: AuthRequest, res: Response) {
   const { userId } = req.params;
-  if (!req.userId) return res.status(401).json({ message: 'Unauthorized' });
   if (userId === req.userId) {
-    return res.status(400).json({ message: 'Cannot send request to yourself' });
+    res.status(400).json({ message: 'Cannot do this to yourself' });
+    return null;
   }
+  const other = Types.ObjectId.isValid(userId) ? await User.findById(userId).select('_id') : null;
+  if (!other) {
+    res.status(404).json({ message: 'User not found' });
+    return null;
+  }
+  return other;
+}
+
+// Users I've blocked
+router.get('/blocked', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const me = await User.findById(req.userId).populate(
+      'blockedUsers',
+      'name username profileImage'
+    );
+    if (!me) return res.status(404).json({ message: 'User not found' });
+    return res.json(me.blockedUsers);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-  const target = await User.findById(userId);
-  if (!target) return res.status(404).json({ message: 'User not found' });
+// Send friend (follow) request
+router.post('/request/:userId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { userId } = req.params;
+    if (!req.userId) return res.status(401).json({ message: 'Unauthorized' });
+    if (userId === req.userId) {
+      return res.status(400).json({ message: 'Cannot send request to yourself' });
+    }
 
-  const alreadyRequested = target.friendRequests.some((id) => id.toString() === req.userId);
-  const alreadyFriend = target.friends.some((id) => id.toString() === req.userId);
-  if (alreadyRequested || alreadyFriend) {
-    return res.status(400).json({ message: 'Already requested or friends' });
-  }
+    const target = Types.ObjectId.isValid(userId)
+      ? await User.findById(userId).select('_id')
+      : null;
+    if (!target || (await isBlockedBetween(req.userId, target.id))) {
+      return res.status(404).json({ message: 'User not found' });
+    }
 
-  target.friendRequests.push(req.userId as any);
-  await target.save();
+    // One document per pair, so a second request either way fails on the unique index
+    let request;
+    try {
+      request = await Friendship.create({
+        requester: req.userId,
+        recipient: target._id,
+        pair: friendshipPair(req.userId, target.id),
+      });
+    } catch (e: unknown) {
+      const duplicate = typeof e === 'object' && e !== null && 'code' in e && e.code === 11000;
+      if (!duplicate) throw e;
+      const connection = await connectionWith(req.userId, target.id);
+      if (connection === 'received') {
+        return res.status(400).json({ message: 'This user already sent you a request' });
+      }
+      return res.status(400).json({ message: 'Already requested or friends' });
+    }
+
+    // A block that landed since the check above may have missed the new request (the block
+    // route deletes friendships after saving the block), so look again and undo it
+    if (await isBlockedBetween(req.userId, target.id)) {
+      await Friendship.deleteOne({ _id: request._id });
+      return res.status(404).json({ message: 'User not found' });
+    }
 
-  return res.json({ message: 'Request sent' });
+    return res.json({ message: 'Request sent' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
 });
 
-// Accept friend request (mutual friendship)
+// Accept a pending friend request (mutual friendship)
 router.post('/request/:userId/accept', authMiddleware, async (req: AuthRequest, res) => {
-  const { userId } = req.params;
-  if (!req.userId) return res.status(401).json({ message: 'Unauthorized' });
+  try {
+    const other = await loadOtherUser(req, res);
+    if (!other) return;
+
+    // Only succeeds if the request is still pending, so it can't be accepted twice or made up.
+    // Both sides see the friendship at once since it's a single document.
+    const accepted = await Friendship.updateOne(
+      { requester: other._id, recipient: req.userId, status: 'pending' },
+      { $set: { status: 'accepted', acceptedAt: new Date() } }
+    );
+    if (accepted.modifiedCount === 0) {
+      return res.status(404).json({ message: 'Friend request not found' });
+    }
 
-  const [me, other] = await Promise.all([
-    User.findById(req.userId),
-    User.findById(userId),
-  ]);
+    return res.json({ message: 'Request accepted' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Decline a friend request sent to me
+router.post('/request/:userId/decline', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const other = await loadOtherUser(req, res);
+    if (!other) return;
+
+    const declined = await Friendship.deleteOne({
+      requester: other._id,
+      recipient: req.userId,
+      status: 'pending',
+    });
+    if (declined.deletedCount === 0) {
+      return res.status(404).json({ message: 'Friend request not found' });
+    }
+
+    return res.json({ message: 'Request declined' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-  if (!me || !other) return res.status(404).json({ message: 'User not found' });
+// Cancel a friend request I sent
+router.delete('/request/:userId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const other = await loadOtherUser(req, res);
+    if (!other) return;
+
+    const cancelled = await Friendship.deleteOne({
+      requester: req.userId,
+      recipient: other._id,
+      status: 'pending',
+    });
+    if (cancelled.deletedCount === 0) {
+      return res.status(404).json({ message: 'Friend request not found' });
+    }
 
-  // Remove from my incoming requests
-  me.friendRequests = me.friendRequests.filter((id) => id.toString() !== other.id);
+    return res.json({ message: 'Request cancelled' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-  const myFriends = new Set(me.friends.map((id) => id.toString()));
-  const otherFriends = new Set(other.friends.map((id) => id.toString()));
+// Unfriend
+router.delete('/friends/:userId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const other = await loadOtherUser(req, res);
+    if (!other) return;
+
+    const removed = await Friendship.deleteOne({
+      pair: friendshipPair(req.userId!, other.id),
+      status: 'accepted',
+    });
+    if (removed.deletedCount === 0) {
+      return res.status(404).json({ message: 'Not friends' });
+    }
 
-  myFriends.add(other.id);
-  otherFriends.add(me.id);
+    return res.json({ message: 'Friend removed' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-  me.friends = Array.from(myFriends) as any;
-  other.friends = Array.from(otherFriends) as any;
+// Block a user: ends any friendship and pending requests between us, and hides us from each other
+router.post('/:userId/block', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const other = await loadOtherUser(req, res);
+    if (!other) return;
+
+    // Saved before the friendship is removed, so a request sent meanwhile either sees the
+    // block and removes itself, or exists by the time it's deleted here
+    await User.updateOne({ _id: req.userId }, { $addToSet: { blockedUsers: other._id } });
+    await Promise.all([
+      Friendship.deleteOne({ pair: friendshipPair(req.userId!, other.id) }),
+      ListenTogetherRequest.updateMany(
+        {
+          status: 'pending',
+          $or: [
+            { from: req.userId, to: other._id },
+            { from: other._id, to: req.userId },
+          ],
+        },
+        { $set: { status: 'declined' } }
+      ),
+    ]);
+
+    return res.json({ message: 'User blocked' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-  await Promise.all([me.save(), other.save()]);
+// Unblock a user. The friendship isn't restored; either side can send a new request.
+router.delete('/:userId/block', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const other = await loadOtherUser(req, res);
+    if (!other) return;
+
+    const unblocked = await User.updateOne(
+      { _id: req.userId, blockedUsers: other._id },
+      { $pull: { blockedUsers: other._id } }
+    );
+    if (unblocked.modifiedCount === 0) {
+      return res.status(404).json({ message: 'User is not blocked' });
+    }
 
-  return res.json({ message: 'Request accepted' });
+    return res.json({ message: 'User unblocked' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
 });
 
 // Public profile for a given user, with privacy rules
@@ -226,20 +629,26 @@ router.get('/:userId/profile', optionalAuthMiddleware, async (req: AuthRequest,
   const { userId } = req.params;
   const viewerId = req.userId ? String(req.userId) : null;
 
-  const target = await User.findById(userId);
+  const target = Types.ObjectId.isValid(userId) ? await User.findById(userId) : null;
   if (!target) return res.status(404).json({ message: 'User not found' });
+  // Blocked users can't see each other's profiles
+  if (viewerId && viewerId !== target.id && (await isBlockedBetween(viewerId, target.id))) {
+    return res.status(404).json({ message: 'User not found' });
+  }
 
   const isSelf = viewerId === String(target.id);
-  const isFriend = viewerId ? target.friends.some((id) => id.toString() === viewerId) : false;
-
-  const friendsCount = target.friends.length;
+  const [connection, friendsCount] = await Promise.all([
+    viewerId && !isSelf ? connectionWith(viewerId, target.id) : ('none' as const),
+    countFriends(target._id),
+  ]);
+  const isFriend = connection === 'friend';
 
   let canSeeUploads = true;
   if (!isSelf && !isFriend && target.isPrivate) {
     canSeeUploads = false;
   }
 
-  let uploads: typeof Song[] | any[] = [];
+  let uploads: ISong[] = [];
   if (!canSeeUploads) {
     uploads = [];
   } else if (isSelf || isFriend) {
@@ -267,38 +676,19 @@ router.get('/:userId/profile', optionalAuthMiddleware, async (req: AuthRequest,
   }
 
   // Get request status if logged in
-  let connectionStatus: 'none' | 'friend' | 'sent' | 'received' | 'self' = 'none';
-  if (isSelf) {
-    connectionStatus = 'self';
-  } else if (isFriend) {
-    connectionStatus = 'friend';
-  } else if (viewerId) {
-    // Check requests
-    if (target.friendRequests.some(id => id.toString() === viewerId)) {
-      connectionStatus = 'sent';
-    } else {
-      // Check if they requested me (I need to check MY requests, but I don't have 'me' loaded efficiently here)
-      // optimization: we can do a quick count/find on User or check if target is in MY requests.
-      // Easier: just check target's friends/requests? No, incoming is in MY document.
-      // Let's load 'me' if needed or do a count.
-      const me = await User.findById(viewerId).select('friendRequests');
-      if (me && me.friendRequests.some(id => id.toString() === target.id)) {
-        connectionStatus = 'received';
-      }
-    }
-  }
+  const connectionStatus = isSelf ? 'self' : connection;
 
   return res.json({
     id: target.id,
     name: target.name,
     username: target.username,
     isPrivate: target.isPrivate,
-    profileImage: target.profileImage,
+    profileImage: target.toJSON().profileImage,
     friendsCount,
     uploadsCount: uploads.length,
     connectionStatus, // Send this simplified status to frontend
     canSeeUploads,
-    uploads,
+    uploads: await withLikedByMe(uploads, viewerId),
   });
 });
 
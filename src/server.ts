@@ -1,16 +1,22 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import morgan from 'morgan';
 
 import { connectDb } from './config/db';
 import { env } from './config/env';
+import { requestLogger } from './middleware/requestLogger';
 import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import songRoutes from './routes/songs';
 import resolverRoutes from './routes/resolver';
 import listenTogetherRoutes from './routes/listen-together';
 import listenSessionRoutes from './routes/listen-sessions';
+import playlistRoutes from './routes/playlists';
+import searchRoutes from './routes/search';
+import mediaRoutes from './routes/media';
+import { runMigrations } from './utils/migrations';
+import { startPopularityJob } from './utils/popularityJob';
+import { startUploadExpiryJob } from './utils/resumableUploads';
 
 async function bootstrap() {
   try {
@@ -23,17 +29,28 @@ async function bootstrap() {
     process.exit(1);
   }
 
+  try {
+    await runMigrations();
+  } catch (err) {
+    // Unfinished migrations run again on the next start
+    // eslint-disable-next-line no-console
+    console.error('Failed to run migrations', err);
+  }
+
   // eslint-disable-next-line no-console
   console.log('--- SERVER STARTUP CHECK ---');
 
+  startPopularityJob();
+  startUploadExpiryJob();
+
   const app = express();
 
   app.use(cors());
   app.use(helmet());
-  app.use(morgan('dev'));
-  // Increase body size limit to 50MB for file uploads
-  app.use(express.json({ limit: '50mb' }));
-  app.use(express.urlencoded({ limit: '50mb', extended: true }));
+  app.use(requestLogger);
+  // Files come in as multipart and are size-checked per field by middleware/upload
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ limit: '1mb', extended: true }));
 
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok' });
@@ -46,6 +63,9 @@ async function bootstrap() {
   app.use('/', resolverRoutes);
   app.use('/listen-together', listenTogetherRoutes);
   app.use('/listen-sessions', listenSessionRoutes);
+  app.use('/playlists', playlistRoutes);
+  app.use('/library', searchRoutes);
+  app.use('/media', mediaRoutes);
 
   app.listen(env.port, '0.0.0.0', () => {
     // eslint-disable-next-line no-console
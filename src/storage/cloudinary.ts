@@ -0,0 +1,73 @@
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import cloudinary from '../config/cloudinary';
+import { ByteRange, MediaKind, PutOptions, StorageDriver } from './types';
+
+// Cloudinary stores audio under the 'video' resource type
+const resourceType = (kind: MediaKind) => (kind === 'audio' ? 'video' : 'image');
+
+export const cloudinaryDriver: StorageDriver = {
+  name: 'cloudinary',
+
+  put(data: Buffer, options: PutOptions) {
+    return new Promise((resolve, reject) => {
+      const stream = cloudinary.uploader.upload_stream(
+        {
+          folder: options.folder,
+          resource_type: resourceType(options.kind),
+        },
+        (error, result) => {
+          if (error || !result) return reject(error);
+          resolve({ key: result.public_id, url: result.secure_url, bytes: result.bytes });
+        }
+      );
+
+      stream.end(data);
+    });
+  },
+
+  async delete(key: string, kind: MediaKind) {
+    await cloudinary.uploader.destroy(key, { resource_type: resourceType(kind) });
+  },
+
+  async signedUrl(key: string, kind: MediaKind, expiresInSeconds: number) {
+    return cloudinary.utils.private_download_url(key, '', {
+      resource_type: resourceType(kind),
+      type: 'upload',
+      expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    });
+  },
+
+  async stream(key: string, kind: MediaKind, range?: ByteRange) {
+    const url = cloudinary.url(key, { resource_type: resourceType(kind), secure: true });
+    const response = await fetch(url, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end ?? ''}` } : {},
+    });
+    const contentRange = response.headers.get('content-range');
+    const contentType = response.headers.get('content-type') || 'application/octet-stream';
+
+    // Range past the end: hand back an empty stream with start > end (unsatisfiable) and the
+    // size from "bytes */size", like the local driver, so the caller can answer 416
+    if (response.status === 416) {
+      await response.body?.cancel();
+      const size = Number(contentRange?.match(/bytes \*\/(\d+)/)?.[1]) || 0;
+      return { body: Readable.from([]), size, start: size, end: size - 1, contentType };
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Cloudinary responded with ${response.status} for ${key}`);
+    }
+
+    // "bytes start-end/size" on a 206. A 200 means the Range was ignored and the body is the
+    // whole object from byte 0, whatever was asked for.
+    const length = Number(response.headers.get('content-length')) || 0;
+    const match = response.status === 206 ? contentRange?.match(/bytes (\d+)-(\d+)\/(\d+)/) : null;
+
+    return {
+      body: Readable.fromWeb(response.body as ReadableStream),
+      size: match ? Number(match[3]) : length,
+      start: match ? Number(match[1]) : 0,
+      end: match ? Number(match[2]) : Math.max(length - 1, 0),
+      contentType,
+    };
+  },
+};
@@ -0,0 +1,40 @@
+import { env } from '../config/env';
+import { cloudinaryDriver } from './cloudinary';
+import { localDriver, signedLocalUrl } from './local';
+import { StorageDriver } from './types';
+
+export * from './types';
+
+const drivers: Record<string, StorageDriver> = {
+  cloudinary: cloudinaryDriver,
+  local: localDriver,
+};
+
+// Media storage selected by STORAGE_DRIVER. Add new backends (e.g. S3-compatible) to `drivers`.
+const storage = drivers[env.storage.driver];
+if (!storage) {
+  throw new Error(`Unknown STORAGE_DRIVER "${env.storage.driver}"`);
+}
+
+// Delete an object, ignoring failures: a leftover file shouldn't fail the request that removed it
+export async function deleteQuietly(key: string | undefined, kind: 'audio' | 'image') {
+  if (!key) return;
+  try {
+    await storage.delete(key, kind);
+  } catch {
+    // ignore deletion errors
+  }
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// The URL to hand out for a stored image. Local files are only served with a signature (see
+// routes/media), so links to them are signed as they're read; the expiry is rounded up to the
+// next day so a link stays the same, and cacheable, for a day. Other drivers' URLs are public.
+export function readableMediaUrl(url: string | undefined, key: string | undefined) {
+  if (!url || !key || storage.name !== 'local') return url;
+  const expires = (Math.ceil(Date.now() / 1000 / DAY_SECONDS) + 1) * DAY_SECONDS;
+  return signedLocalUrl(key, expires);
+}
+
+export default storage;
@@ -0,0 +1,113 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { env } from '../config/env';
+import { ByteRange, MediaKind, PutOptions, StorageDriver } from './types';
+
+// Stores files under env.storage.localDir and serves them from /media (see routes/media).
+// Meant for development and tests, so the app runs without any external service.
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.webm': 'audio/webm',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+const root = () => path.resolve(env.storage.localDir);
+
+export function contentTypeForKey(key: string) {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+function extensionFor(options: PutOptions) {
+  const fromName = path.extname(options.filename ?? '').toLowerCase();
+  if (fromName && CONTENT_TYPES[fromName]) return fromName;
+  const fromType = Object.keys(CONTENT_TYPES).find((ext) => CONTENT_TYPES[ext] === options.contentType);
+  return fromType ?? '';
+}
+
+// Absolute path for a key, or null if the key tries to escape the storage directory
+export function resolveLocalPath(key: string) {
+  const base = root();
+  const full = path.resolve(base, key);
+  return full.startsWith(base + path.sep) ? full : null;
+}
+
+function sign(key: string, expires: number) {
+  return createHmac('sha256', env.storage.signingSecret).update(`${key}:${expires}`).digest('hex');
+}
+
+// Check the ?expires=&signature= of a URL produced by signedUrl
+export function verifyLocalSignature(key: string, expires: unknown, signature: unknown) {
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+  if (typeof signature !== 'string') return false;
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+const publicUrl = (key: string) =>
+  `${env.storage.publicBaseUrl}/media/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+// URL for a local file that /media will serve until `expires` (unix seconds)
+export function signedLocalUrl(key: string, expires: number) {
+  return `${publicUrl(key)}?expires=${expires}&signature=${sign(key, expires)}`;
+}
+
+export const localDriver: StorageDriver = {
+  name: 'local',
+
+  async put(data: Buffer, options: PutOptions) {
+    const key = `${options.folder}/${randomUUID()}${extensionFor(options)}`;
+    const file = resolveLocalPath(key);
+    if (!file) throw new Error(`Invalid storage key: ${key}`);
+
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+
+    return { key, url: publicUrl(key), bytes: data.length };
+  },
+
+  async delete(key: string, _kind: MediaKind) {
+    const file = resolveLocalPath(key);
+    if (!file) return;
+    try {
+      await fs.promises.unlink(file);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  },
+
+  async signedUrl(key: string, _kind: MediaKind, expiresInSeconds: number) {
+    return signedLocalUrl(key, Math.floor(Date.now() / 1000) + expiresInSeconds);
+  },
+
+  async stream(key: string, _kind: MediaKind, range?: ByteRange) {
+    const file = resolveLocalPath(key);
+    if (!file) throw new Error(`Invalid storage key: ${key}`);
+
+    const { size } = await fs.promises.stat(file);
+    const start = range?.start ?? 0;
+    const end = Math.min(range?.end ?? size - 1, size - 1);
+
+    return {
+      body: fs.createReadStream(file, { start, end }),
+      size,
+      start,
+      end,
+      contentType: contentTypeForKey(key),
+    };
+  },
+};
@@ -0,0 +1,39 @@
+import { Readable } from 'stream';
+
+// What an object is, so drivers can pick the right bucket/resource type for it
+export type MediaKind = 'audio' | 'image';
+
+export interface PutOptions {
+  folder: string; // Logical folder, e.g. 'audioly/covers'
+  kind: MediaKind;
+  filename?: string; // Original file name, used for the extension where the driver needs one
+  contentType?: string;
+}
+
+export interface StoredObject {
+  key: string; // Driver-specific id, stored on documents as `*PublicId`
+  url: string; // Public URL the app can load directly
+  bytes: number;
+}
+
+export interface ByteRange {
+  start: number;
+  end?: number; // Inclusive; omitted means "to the end"
+}
+
+export interface ObjectStream {
+  body: Readable;
+  size: number; // Full object size in bytes
+  start: number;
+  end: number; // Inclusive
+  contentType: string;
+}
+
+export interface StorageDriver {
+  name: string;
+  put(data: Buffer, options: PutOptions): Promise<StoredObject>;
+  delete(key: string, kind: MediaKind): Promise<void>;
+  // Time-limited URL for objects that shouldn't be fetched with a permanent link
+  signedUrl(key: string, kind: MediaKind, expiresInSeconds: number): Promise<string>;
+  stream(key: string, kind: MediaKind, range?: ByteRange): Promise<ObjectStream>;
+}
@@ -0,0 +1,49 @@
+import { parseBuffer } from 'music-metadata';
+
+export interface AudioMetadata {
+  duration?: number; // In ms, like track durations elsewhere
+  codec?: string;
+  bitrate?: number; // bits per second
+  sampleRate?: number; // Hz
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  picture?: { data: Buffer; format: string };
+}
+
+const tag = (value: string | undefined) => value?.trim() || undefined;
+
+// Read duration, format and ID3/Vorbis/MP4 tags from an uploaded audio file.
+// Returns an empty object for files the parser can't make sense of, so uploads never fail on it.
+export async function extractAudioMetadata(
+  buffer: Buffer,
+  mimetype?: string
+): Promise<AudioMetadata> {
+  try {
+    const { format, common } = await parseBuffer(buffer, mimetype, { duration: true });
+    const picture = common.picture?.[0];
+
+    return {
+      duration: format.duration ? Math.round(format.duration * 1000) : undefined,
+      codec: format.codec ?? format.container,
+      bitrate: format.bitrate ? Math.round(format.bitrate) : undefined,
+      sampleRate: format.sampleRate,
+      title: tag(common.title),
+      artist: tag(common.artist),
+      album: tag(common.album),
+      genre: tag(common.genre?.[0]),
+      picture: picture
+        ? {
+            data: picture.data,
+            // Old ID3v2.2 tags store a bare extension like "JPG"
+            format: picture.format.includes('/') ? picture.format : `image/${picture.format.toLowerCase()}`,
+          }
+        : undefined,
+    };
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn('Could not read audio metadata:', (e as Error).message);
+    return {};
+  }
+}
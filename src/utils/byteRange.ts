@@ -0,0 +1,30 @@
+import { ByteRange } from '../storage';
+
+// Parse a single-range `Range: bytes=...` header against an object of `size` bytes (if known).
+// Returns null when the whole object should be sent (no header, multiple or malformed ranges,
+// or a suffix range on an object of unknown size), and 'unsatisfiable' for a 416.
+export function parseByteRange(
+  header: string | undefined,
+  size: number | undefined
+): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+  const [, first, last] = match;
+
+  if (!first) {
+    // "bytes=-500": the last 500 bytes
+    if (!last || size === undefined) return null;
+    const length = Number(last);
+    if (length === 0) return 'unsatisfiable';
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = Number(first);
+  const end = last ? Number(last) : undefined;
+  if (end !== undefined && end < start) return null;
+  if (size !== undefined) {
+    if (start >= size) return 'unsatisfiable';
+    return { start, end: Math.min(end ?? size - 1, size - 1) };
+  }
+  return { start, end };
+}
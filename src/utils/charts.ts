@@ -0,0 +1,145 @@
+import { Types } from 'mongoose';
+import { ChartEntry, ChartPeriod, ChartSnapshot } from '../models/ChartSnapshot';
+import { PlayEvent } from '../models/PlayEvent';
+import { Song } from '../models/Song';
+
+export const CHART_SIZE = 50;
+export const CHART_PERIODS: ChartPeriod[] = ['daily', 'weekly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS: Record<ChartPeriod, number> = { daily: DAY_MS, weekly: 7 * DAY_MS };
+
+// Start of the day (UTC) or week (UTC, from Monday) containing `at`
+export function periodStartOf(period: ChartPeriod, at: Date) {
+  const day = Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate());
+  if (period === 'daily') return new Date(day);
+  const daysSinceMonday = (at.getUTCDay() + 6) % 7;
+  return new Date(day - daysSinceMonday * DAY_MS);
+}
+
+export const previousPeriodStart = (period: ChartPeriod, start: Date) =>
+  new Date(start.getTime() - PERIOD_MS[period]);
+
+// Rebuild the overall and per-category charts for the day or week containing `at`,
+// ranking public songs by counted plays (then unique listeners) in that period.
+export async function refreshCharts(period: ChartPeriod, at = new Date()) {
+  const periodStart = periodStartOf(period, at);
+  const periodEnd = new Date(periodStart.getTime() + PERIOD_MS[period]);
+
+  const rows = await PlayEvent.aggregate<{
+    _id: Types.ObjectId;
+    plays: number;
+    uniqueListeners: number;
+    category?: string;
+  }>([
+    { $match: { counted: true, countedAt: { $gte: periodStart, $lt: periodEnd } } },
+    {
+      $group: {
+        _id: '$song',
+        plays: { $sum: 1 },
+        listeners: { $addToSet: { $ifNull: ['$user', '$anonymousId'] } },
+      },
+    },
+    {
+      $lookup: {
+        from: Song.collection.name,
+        localField: '_id',
+        foreignField: '_id',
+        pipeline: [{ $project: { isPublic: 1, category: 1 } }],
+        as: 'song',
+      },
+    },
+    { $unwind: '$song' },
+    { $match: { 'song.isPublic': true } },
+    {
+      $project: {
+        plays: 1,
+        uniqueListeners: { $size: '$listeners' },
+        category: '$song.category',
+      },
+    },
+    { $sort: { plays: -1, uniqueListeners: -1, _id: 1 } },
+  ]);
+
+  // '' is the chart across all categories
+  const charts = new Map<string, ChartEntry[]>([['', []]]);
+  for (const row of rows) {
+    for (const category of ['', ...(row.category ? [row.category] : [])]) {
+      const entries = charts.get(category) ?? [];
+      if (entries.length < CHART_SIZE) {
+        entries.push({
+          song: row._id,
+          rank: entries.length + 1,
+          plays: row.plays,
+          uniqueListeners: row.uniqueListeners,
+        });
+      }
+      charts.set(category, entries);
+    }
+  }
+
+  await ChartSnapshot.bulkWrite(
+    Array.from(charts, ([category, entries]) => ({
+      updateOne: {
+        filter: { period, category, periodStart },
+        update: { $set: { entries } },
+        upsert: true,
+      },
+    }))
+  );
+}
+
+// Bring a period's charts up to date: the current one, and the previous one if it was
+// last refreshed before it ended (so its final ranks are complete for movement).
+export async function refreshChartPeriod(period: ChartPeriod, now = new Date()) {
+  const currentStart = periodStartOf(period, now);
+  const previousStart = previousPeriodStart(period, currentStart);
+
+  const previous = await ChartSnapshot.findOne({
+    period,
+    category: '',
+    periodStart: previousStart,
+  }).select('updatedAt');
+  if (!previous || previous.updatedAt < currentStart) {
+    await refreshCharts(period, previousStart);
+  }
+  await refreshCharts(period, now);
+}
+
+// A chart with each entry's rank in the previous period, as last built by the popularity
+// job (see utils/popularityJob). Empty until the job has run for the period.
+export async function getChart(period: ChartPeriod, category: string, now = new Date()) {
+  const periodStart = periodStartOf(period, now);
+
+  const [current, previous] = await Promise.all([
+    ChartSnapshot.findOne({ period, category, periodStart }),
+    ChartSnapshot.findOne({
+      period,
+      category,
+      periodStart: previousPeriodStart(period, periodStart),
+    }),
+  ]);
+
+  const previousRanks = new Map(
+    (previous?.entries ?? []).map((entry) => [entry.song.toString(), entry.rank])
+  );
+
+  return {
+    period,
+    category: category || null,
+    periodStart,
+    updatedAt: current?.updatedAt ?? null,
+    entries: (current?.entries ?? []).map((entry) => {
+      const previousRank = previousRanks.get(entry.song.toString()) ?? null;
+      return {
+        song: entry.song,
+        rank: entry.rank,
+        previousRank,
+        // Positive when the song climbed; null for new entries
+        movement: previousRank === null ? null : previousRank - entry.rank,
+        plays: entry.plays,
+        uniqueListeners: entry.uniqueListeners,
+      };
+    }),
+  };
+}
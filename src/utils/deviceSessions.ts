@@ -0,0 +1,25 @@
+import { FilterQuery } from 'mongoose';
+import { DeviceSession, IDeviceSession } from '../models/DeviceSession';
+import { RefreshToken } from '../models/RefreshToken';
+
+// Revoke matching device sessions along with every refresh token issued for them.
+// Access tokens carry their session id, so authMiddleware rejects them from here on.
+export async function revokeDeviceSessions(filter: FilterQuery<IDeviceSession>) {
+  const sessions = await DeviceSession.find({ ...filter, revokedAt: { $exists: false } }).select(
+    '_id'
+  );
+  if (sessions.length === 0) return 0;
+
+  const ids = sessions.map((s) => s._id);
+  const now = new Date();
+
+  await Promise.all([
+    DeviceSession.updateMany({ _id: { $in: ids } }, { $set: { revokedAt: now } }),
+    RefreshToken.updateMany(
+      { session: { $in: ids }, revokedAt: { $exists: false } },
+      { $set: { revokedAt: now } }
+    ),
+  ]);
+
+  return ids.length;
+}
@@ -0,0 +1,114 @@
+import { AnyBulkWriteOperation, Types } from 'mongoose';
+import { Friendship, FriendshipStatus, IFriendship } from '../models/Friendship';
+import { User } from '../models/User';
+
+type UserId = Types.ObjectId | string;
+
+export type Connection = 'none' | 'friend' | 'sent' | 'received';
+
+// Key shared by both directions of a pair of users
+export function friendshipPair(a: UserId, b: UserId) {
+  return [a.toString(), b.toString()].sort().join(':');
+}
+
+// Friendships and requests the user is part of, on either side
+export function friendshipsOf(userId: UserId, status?: FriendshipStatus) {
+  return Friendship.find({
+    $or: [{ requester: userId }, { recipient: userId }],
+    ...(status ? { status } : {}),
+  });
+}
+
+// The user on the other side of a friendship (populated or not; both have an _id)
+export function otherUserOf(
+  friendship: Pick<IFriendship, 'requester' | 'recipient'>,
+  userId: string
+) {
+  return friendship.requester._id.toString() === userId
+    ? friendship.recipient
+    : friendship.requester;
+}
+
+export async function areFriends(a: string, b: string) {
+  return !!(await Friendship.exists({ pair: friendshipPair(a, b), status: 'accepted' }));
+}
+
+export function countFriends(userId: UserId) {
+  return Friendship.countDocuments({
+    $or: [{ requester: userId }, { recipient: userId }],
+    status: 'accepted',
+  });
+}
+
+// How the viewer is connected to another user: friends, or a request either way
+export async function connectionWith(viewerId: string, otherId: string): Promise<Connection> {
+  const friendship = await Friendship.findOne({ pair: friendshipPair(viewerId, otherId) });
+  if (!friendship) return 'none';
+  if (friendship.status === 'accepted') return 'friend';
+  return friendship.requester.toString() === viewerId ? 'sent' : 'received';
+}
+
+// Copy the friends and friendRequests arrays that used to live on User into Friendship
+// documents, then remove them. Runs once from utils/migrations; running it again is harmless,
+// since a user's arrays are only removed once copied and copying again never duplicates or
+// downgrades a friendship. The old lists didn't record when people became friends, so
+// acceptedAt is the user's last update, which is at least when the list last changed.
+export async function migrateLegacyFriendLists() {
+  const migratedAt = new Date();
+  const legacy = User.collection.find(
+    { $or: [{ friends: { $exists: true } }, { friendRequests: { $exists: true } }] },
+    { projection: { friends: 1, friendRequests: 1, updatedAt: 1 } }
+  );
+
+  let migrated = 0;
+  for await (const user of legacy) {
+    const friends: Types.ObjectId[] = user.friends ?? [];
+    const requesters: Types.ObjectId[] = user.friendRequests ?? [];
+    const acceptedAt: Date = user.updatedAt ?? migratedAt;
+
+    // Either side listing the other is enough to count as friends; the old accept wrote
+    // the two users separately and could leave only one of them updated
+    const operations: AnyBulkWriteOperation<IFriendship>[] = [
+      ...friends.map((friendId) => ({
+        updateOne: {
+          filter: { pair: friendshipPair(user._id, friendId) },
+          update: {
+            $setOnInsert: { requester: friendId, recipient: user._id },
+            $set: { status: 'accepted' as const },
+            // The earlier of the two users' dates when both list each other
+            $min: { acceptedAt },
+          },
+          upsert: true,
+        },
+      })),
+      ...requesters.map((requesterId) => ({
+        updateOne: {
+          filter: { pair: friendshipPair(user._id, requesterId) },
+          update: {
+            $setOnInsert: { requester: requesterId, recipient: user._id, status: 'pending' as const },
+          },
+          upsert: true,
+        },
+      })),
+    ];
+    if (operations.length) await Friendship.bulkWrite(operations);
+
+    // Straight to the collection: the fields are no longer in the schema
+    await User.collection.updateOne(
+      { _id: user._id },
+      { $unset: { friends: '', friendRequests: '' } }
+    );
+    migrated++;
+  }
+
+  // Friendships copied by an earlier version of this migration were left without acceptedAt;
+  // they were created by the migration, so that's the closest date there is
+  await Friendship.updateMany({ status: 'accepted', acceptedAt: { $exists: false } }, [
+    { $set: { acceptedAt: '$createdAt' } },
+  ]);
+
+  if (migrated) {
+    // eslint-disable-next-line no-console
+    console.log(`Moved friend lists of ${migrated} users into friendships`);
+  }
+}
@@ -0,0 +1,84 @@
+import { Response } from 'express';
+
+export type ListenSessionEventType =
+    | 'state' // Full snapshot, sent when a client connects
+    | 'playback'
+    | 'track'
+    | 'queue'
+    | 'join'
+    | 'leave'
+    | 'host'
+    | 'message'
+    | 'reaction'
+    | 'end';
+
+// Open Server-Sent Events streams per session id, mapped to the user each stream belongs to.
+// Subscribers are kept in memory, so events only reach clients connected to this process.
+const subscribers = new Map<string, Map<Response, string>>();
+
+const HEARTBEAT_MS = 25 * 1000;
+
+function write(res: Response, event: ListenSessionEventType, data: unknown) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Turn the response into an SSE stream for the given session and keep it open until the client goes away
+export function subscribe(sessionId: string, userId: string, res: Response) {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    let streams = subscribers.get(sessionId);
+    if (!streams) {
+        streams = new Map();
+        subscribers.set(sessionId, streams);
+    }
+    streams.set(res, userId);
+
+    // Comment lines keep proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        const current = subscribers.get(sessionId);
+        if (!current) return;
+        current.delete(res);
+        if (current.size === 0) subscribers.delete(sessionId);
+    });
+}
+
+// Whether the user has at least one open stream for the session on this process
+export function isConnected(sessionId: string, userId: string) {
+    const streams = subscribers.get(sessionId);
+    if (!streams) return false;
+    for (const id of streams.values()) {
+        if (id === userId) return true;
+    }
+    return false;
+}
+
+export function sendTo(res: Response, event: ListenSessionEventType, data: unknown) {
+    write(res, event, data);
+}
+
+// Broadcast an event to everyone connected to the session
+export function publish(sessionId: string, event: ListenSessionEventType, data: unknown) {
+    const streams = subscribers.get(sessionId);
+    if (!streams) return;
+
+    const payload = { ...(data as object), sessionId, at: new Date().toISOString() };
+    for (const res of streams.keys()) {
+        write(res, event, payload);
+    }
+
+    // Nobody should keep listening to a finished session
+    if (event === 'end') {
+        for (const res of streams.keys()) {
+            res.end();
+        }
+        subscribers.delete(sessionId);
+    }
+}
@@ -0,0 +1,31 @@
+import { Types } from 'mongoose';
+import { IListenSession, ListenSessionTrack } from '../models/ListenSession';
+import { ListenSessionTrackPlay } from '../models/ListenSessionTrackPlay';
+
+// Close the entry for whatever track is currently playing in the session
+export async function closeCurrentTrackPlay(sessionId: Types.ObjectId | string, at: Date = new Date()) {
+    await ListenSessionTrackPlay.updateMany(
+        { session: sessionId, endedAt: { $exists: false } },
+        { $set: { endedAt: at } }
+    );
+}
+
+// Record a track change: the previous track ends now and the new one starts with everyone present
+export async function recordTrackChange(session: IListenSession, track: ListenSessionTrack) {
+    const now = new Date();
+    await closeCurrentTrackPlay(session._id as Types.ObjectId, now);
+    await ListenSessionTrackPlay.create({
+        session: session._id,
+        track,
+        startedAt: now,
+        listeners: session.participants,
+    });
+}
+
+// Someone joined mid-track: they were there for the current track too
+export async function addListenerToCurrentTrack(sessionId: Types.ObjectId | string, userId: string) {
+    await ListenSessionTrackPlay.updateOne(
+        { session: sessionId, endedAt: { $exists: false } },
+        { $addToSet: { listeners: userId } }
+    );
+}
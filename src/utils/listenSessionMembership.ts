@@ -0,0 +1,177 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthRequest } from '../middleware/auth';
+import { User } from '../models/User';
+import { ListenSession } from '../models/ListenSession';
+import { isConnected, publish } from './listenSessionEvents';
+import { addListenerToCurrentTrack, closeCurrentTrackPlay } from './listenSessionHistory';
+
+// How long a host's event stream may stay disconnected before someone else takes over
+const HOST_DROP_GRACE_MS = 30 * 1000;
+
+// Load the session from :sessionId for a participant, or send the error response and return null.
+// Ended sessions are refused unless `allowEnded` is set (e.g. to read back their history).
+export async function loadParticipantSession(req: AuthRequest, res: Response, allowEnded = false) {
+    const { sessionId } = req.params as { sessionId: string };
+    const userId = req.userId;
+
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized' });
+        return null;
+    }
+
+    const session = await ListenSession.findById(sessionId);
+    if (!session) {
+        res.status(404).json({ message: 'Session not found' });
+        return null;
+    }
+
+    // Check if user is part of this session
+    const isParticipant = session.participants.some((p) => p.toString() === userId);
+    if (!isParticipant) {
+        res.status(403).json({ message: 'You are not part of this session' });
+        return null;
+    }
+
+    if (!allowEnded && !session.isActive) {
+        res.status(400).json({ message: 'Session is no longer active' });
+        return null;
+    }
+
+    return session;
+}
+
+// Make another participant the host. Only succeeds if `fromHostId` is still the host,
+// so concurrent hand-offs can't both win.
+export async function transferHost(sessionId: string, fromHostId: string, toUserId: string) {
+    const session = await ListenSession.findOneAndUpdate(
+        { _id: sessionId, isActive: true, host: fromHostId, participants: toUserId },
+        { $set: { host: toUserId } },
+        { new: true }
+    );
+    if (!session) return null;
+
+    publish(sessionId, 'host', { host: toUserId, previousHost: fromHostId });
+    return session;
+}
+
+// Remove a user from a session. If the host leaves, the longest-present participant
+// (participants are kept in join order) becomes host; the session only ends when nobody is left.
+// Every step is a conditional update, so concurrent joins and leaves can't overwrite each other.
+export async function leaveListenSession(sessionId: string, userId: string) {
+    let session = await ListenSession.findOneAndUpdate(
+        { _id: sessionId, participants: userId },
+        { $pull: { participants: userId } },
+        { new: true }
+    );
+    if (!session) {
+        // Not (or no longer) a participant: nothing to do
+        return ListenSession.findById(sessionId);
+    }
+
+    const previousHost = session.host.toString();
+
+    if (session.isActive && session.participants.length === 0) {
+        // Only ends the session if nobody joined in the meantime
+        session =
+            (await ListenSession.findOneAndUpdate(
+                { _id: session._id, isActive: true, participants: { $size: 0 } },
+                { $set: { isActive: false, endedAt: new Date() } },
+                { new: true }
+            )) ?? (await ListenSession.findById(session._id));
+        if (!session) return null;
+    }
+
+    if (session.isActive && session.host.toString() === userId) {
+        session =
+            (await ListenSession.findOneAndUpdate(
+                {
+                    _id: session._id,
+                    isActive: true,
+                    host: userId,
+                    'participants.0': { $exists: true },
+                },
+                [{ $set: { host: { $arrayElemAt: ['$participants', 0] } } }],
+                { new: true }
+            )) ?? session;
+    }
+
+    if (!session.isActive) {
+        await closeCurrentTrackPlay(session._id as Types.ObjectId, session.endedAt);
+    }
+
+    // Remove session from user (unless they've already moved on to another one)
+    await User.updateOne(
+        { _id: userId, activeListenSession: session._id },
+        { $unset: { activeListenSession: 1 } }
+    );
+
+    publish(sessionId, 'leave', { userId, participants: session.participants });
+    if (!session.isActive) {
+        publish(sessionId, 'end', { reason: 'left' });
+    } else if (session.host.toString() !== previousHost) {
+        publish(sessionId, 'host', { host: session.host, previousHost });
+    }
+
+    return session;
+}
+
+// Called when a user's event stream closes. If it was the host and they haven't reconnected
+// after the grace period, hand the session to the longest-present participant who is still connected.
+export function scheduleHostDropCheck(sessionId: string, userId: string) {
+    setTimeout(() => {
+        void (async () => {
+            if (isConnected(sessionId, userId)) return;
+
+            const session = await ListenSession.findById(sessionId);
+            if (!session || !session.isActive || session.host.toString() !== userId) return;
+
+            const next = session.participants
+                .map((p) => p.toString())
+                .find((p) => p !== userId && isConnected(sessionId, p));
+            if (!next) return;
+
+            await transferHost(sessionId, userId, next);
+        })().catch((error) => {
+            console.error('Error handing off host after disconnect:', error);
+        });
+    }, HOST_DROP_GRACE_MS).unref();
+}
+
+// Add a user to an active session, then leave whatever session they were in before.
+// `maxParticipants` caps the session size; returns null if the session is gone or full.
+export async function joinListenSession(sessionId: string, userId: string, maxParticipants?: number) {
+    const user = await User.findById(userId).select('activeListenSession');
+    if (!user) return null;
+
+    const filter: Record<string, unknown> = { _id: sessionId, isActive: true };
+    if (maxParticipants) {
+        // Full when the slot at index maxParticipants - 1 is taken (existing members may always rejoin)
+        filter.$or = [
+            { participants: new Types.ObjectId(userId) },
+            { [`participants.${maxParticipants - 1}`]: { $exists: false } },
+        ];
+    }
+
+    const session = await ListenSession.findOneAndUpdate(
+        filter,
+        { $addToSet: { participants: userId, members: userId } },
+        { new: true }
+    );
+    if (!session) return null;
+
+    // Only leave the previous session once the join has succeeded, so a full or ended
+    // session doesn't cost the user the one they're in
+    const previous = user.activeListenSession?.toString();
+    if (previous && previous !== sessionId) {
+        await leaveListenSession(previous, userId);
+    }
+
+    await addListenerToCurrentTrack(session._id as Types.ObjectId, userId);
+
+    await User.updateOne({ _id: userId }, { $set: { activeListenSession: session._id } });
+
+    publish(sessionId, 'join', { userId, participants: session.participants });
+
+    return session;
+}
@@ -0,0 +1,58 @@
+import { Migration } from '../models/Migration';
+import { Playlist } from '../models/Playlist';
+import { ResumableUpload } from '../models/ResumableUpload';
+import { Song } from '../models/Song';
+import { User } from '../models/User';
+import { migrateLegacyFriendLists } from './friendships';
+import { backfillSearchKeys } from './search';
+
+// One-off data migrations, in the order they run. Each must be safe to run again, since two
+// instances starting together may both run it before either records it as done.
+const MIGRATIONS: { name: string; run: () => Promise<void> }[] = [
+  {
+    name: 'search-keys',
+    run: async () => {
+      await backfillSearchKeys(Song);
+      await backfillSearchKeys(User);
+      await backfillSearchKeys(Playlist);
+    },
+  },
+  {
+    name: 'friendships',
+    run: migrateLegacyFriendLists,
+  },
+  {
+    // Uploads used to expire by TTL index, which can't release their quota reservation
+    name: 'resumable-upload-expiry',
+    run: async () => {
+      await ResumableUpload.syncIndexes();
+    },
+  },
+  {
+    // Punctuation is no longer kept in search keys
+    name: 'search-keys-punctuation',
+    run: async () => {
+      await backfillSearchKeys(Song, { rebuild: true });
+      await backfillSearchKeys(User, { rebuild: true });
+      await backfillSearchKeys(Playlist, { rebuild: true });
+    },
+  },
+];
+
+// Run the migrations that haven't finished yet. Call once connected to MongoDB.
+export async function runMigrations() {
+  const done = new Set((await Migration.find().select('name')).map((m) => m.name));
+
+  for (const { name, run } of MIGRATIONS) {
+    if (done.has(name)) continue;
+
+    await run();
+    await Migration.updateOne(
+      { name },
+      { $setOnInsert: { completedAt: new Date() } },
+      { upsert: true }
+    );
+    // eslint-disable-next-line no-console
+    console.log(`Migration ${name} done`);
+  }
+}
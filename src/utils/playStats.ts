@@ -0,0 +1,170 @@
+import { PipelineStage, Types } from 'mongoose';
+import { PlayEvent } from '../models/PlayEvent';
+import { SongLike } from '../models/SongLike';
+import { User } from '../models/User';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const TOP_FRIENDS = 10;
+const TOP_SONGS = 10;
+
+export interface StatsRange {
+  from: Date;
+  to: Date;
+  timezone: string; // Buckets start at midnight (and on Mondays, for weeks) in this zone
+}
+
+function parseDate(value: unknown) {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Parse ?from=&to=&tz= for stats. Defaults to the last 30 days in UTC.
+// Returns the range, or an error message for a 400.
+export function parseStatsRange(query: Record<string, unknown>): StatsRange | { error: string } {
+  const to = parseDate(query.to);
+  const from = parseDate(query.from);
+  if (to === null || from === null) return { error: 'from and to must be dates' };
+
+  const end = to ?? new Date();
+  const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (start >= end) return { error: 'from must be before to' };
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return { error: `Ranges can span at most ${MAX_RANGE_DAYS} days` };
+  }
+
+  const timezone = typeof query.tz === 'string' && query.tz ? query.tz : 'UTC';
+  if (!isValidTimezone(timezone)) return { error: 'Unknown timezone' };
+
+  return { from: start, to: end, timezone };
+}
+
+// Signed-in listeners by user id, guests by their anonymous id
+const listenerKey = { $ifNull: ['$user', '$anonymousId'] };
+
+const bucketStages = (
+  unit: 'day' | 'week',
+  timezone: string
+): PipelineStage.FacetPipelineStage[] => [
+  { $match: { counted: true } },
+  {
+    $group: {
+      _id: { $dateTrunc: { date: '$createdAt', unit, timezone, startOfWeek: 'monday' } },
+      plays: { $sum: 1 },
+      listeners: { $addToSet: listenerKey },
+    },
+  },
+  { $sort: { _id: 1 } },
+  { $project: { _id: 0, start: '$_id', plays: 1, uniqueListeners: { $size: '$listeners' } } },
+];
+
+// Listening stats for a set of songs (one song, or all of an uploader's) over a date range:
+// plays per day and week, unique listeners, completion rate, traffic sources, likes, and which
+// of the owner's friends listen most. Plays are counted listens; completion rate is over all
+// started listens.
+export async function computePlayStats(
+  songIds: Types.ObjectId[],
+  friendIds: Set<string>,
+  range: StatsRange
+) {
+  const friends = Array.from(friendIds, (id) => new Types.ObjectId(id));
+
+  const [[stats], likesInRange, totalLikes] = await Promise.all([
+    PlayEvent.aggregate([
+      { $match: { song: { $in: songIds }, createdAt: { $gte: range.from, $lt: range.to } } },
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                started: { $sum: 1 },
+                plays: { $sum: { $cond: ['$counted', 1, 0] } },
+                completed: { $sum: { $cond: ['$completed', 1, 0] } },
+                listenedSeconds: { $sum: '$listenedSeconds' },
+                listeners: { $addToSet: { $cond: ['$counted', listenerKey, '$$REMOVE'] } },
+              },
+            },
+          ],
+          daily: bucketStages('day', range.timezone),
+          weekly: bucketStages('week', range.timezone),
+          sources: [
+            { $match: { counted: true } },
+            { $group: { _id: '$source', plays: { $sum: 1 } } },
+            { $sort: { plays: -1 } },
+            { $project: { _id: 0, source: '$_id', plays: 1 } },
+          ],
+          topFriends: [
+            { $match: { counted: true, user: { $in: friends } } },
+            { $group: { _id: '$user', plays: { $sum: 1 } } },
+            { $sort: { plays: -1 } },
+            { $limit: TOP_FRIENDS },
+          ],
+          topSongs: [
+            { $match: { counted: true } },
+            {
+              $group: {
+                _id: '$song',
+                plays: { $sum: 1 },
+                listeners: { $addToSet: listenerKey },
+              },
+            },
+            { $sort: { plays: -1 } },
+            { $limit: TOP_SONGS },
+            {
+              $project: { _id: 0, song: '$_id', plays: 1, uniqueListeners: { $size: '$listeners' } },
+            },
+          ],
+        },
+      },
+    ]),
+    SongLike.countDocuments({
+      song: { $in: songIds },
+      createdAt: { $gte: range.from, $lt: range.to },
+    }),
+    SongLike.countDocuments({ song: { $in: songIds } }),
+  ]);
+
+  const totals = stats.totals[0] ?? {
+    started: 0,
+    plays: 0,
+    completed: 0,
+    listenedSeconds: 0,
+    listeners: [],
+  };
+
+  const friendUsers = await User.find({
+    _id: { $in: stats.topFriends.map((f: { _id: Types.ObjectId }) => f._id) },
+  }).select('name username profileImage');
+  const friendsById = new Map(friendUsers.map((u) => [u.id, u]));
+
+  return {
+    range: { from: range.from, to: range.to, timezone: range.timezone },
+    plays: totals.plays,
+    uniqueListeners: totals.listeners.length,
+    listenedSeconds: Math.round(totals.listenedSeconds),
+    completionRate: totals.started ? totals.completed / totals.started : 0,
+    daily: stats.daily,
+    weekly: stats.weekly,
+    sources: stats.sources,
+    likes: { total: totalLikes, inRange: likesInRange },
+    topFriends: stats.topFriends
+      .filter((f: { _id: Types.ObjectId }) => friendsById.has(f._id.toString()))
+      .map((f: { _id: Types.ObjectId; plays: number }) => ({
+        user: friendsById.get(f._id.toString()),
+        plays: f.plays,
+      })),
+    topSongs: stats.topSongs as { song: Types.ObjectId; plays: number; uniqueListeners: number }[],
+  };
+}
@@ -0,0 +1,17 @@
+import { IListenSession } from '../models/ListenSession';
+
+// Where playback is right now according to the server clock.
+// The stored position is only correct at `updatedAt`; while playing it advances in real time.
+export function playbackSnapshot(session: IListenSession, now: Date = new Date()) {
+    const { position, isPlaying, updatedAt, version } = session.playbackState;
+    const elapsed = isPlaying ? Math.max(0, now.getTime() - new Date(updatedAt).getTime()) / 1000 : 0;
+
+    return {
+        position,
+        isPlaying,
+        updatedAt,
+        version: version ?? 0,
+        positionNow: position + elapsed,
+        serverTime: now.getTime(),
+    };
+}
@@ -0,0 +1,175 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import { ISong, Song } from '../models/Song';
+import { IPlayEvent, PlayEvent, PlaySource } from '../models/PlayEvent';
+import { addToTrendingScore, trendingPoint } from './trending';
+
+// A listen counts as a play after 30 seconds, or half of a song shorter than a minute
+const MIN_LISTEN_SECONDS = 30;
+// Repeat listens by the same person inside this window count once
+const DEDUPE_WINDOW_MS = 30 * 60 * 1000;
+// Listening to 90% of a song is as good as finishing it
+const COMPLETION_RATIO = 0.9;
+
+export interface Listener {
+  userId?: string;
+  anonymousId?: string;
+}
+
+export interface PlayProgress {
+  source?: PlaySource;
+  listenedSeconds?: number;
+  completed?: boolean;
+}
+
+const anonymousIdSignature = (id: string) =>
+  createHmac('sha256', env.jwtSecret).update(`anonymous:${id}`).digest('base64url');
+
+// A new guest id, signed so that guests can only use ids the server handed out
+export function issueAnonymousId() {
+  const id = randomUUID();
+  return `${id}.${anonymousIdSignature(id)}`;
+}
+
+// A guest's id from issueAnonymousId, from the body, the query (for media elements) or
+// X-Anonymous-Id. Ids without a valid signature are ignored.
+export function readAnonymousId(req: Request) {
+  const value = req.body?.anonymousId ?? req.query.anonymousId ?? req.headers['x-anonymous-id'];
+  if (typeof value !== 'string') return undefined;
+
+  const [id, signature] = value.split('.');
+  if (!id || !signature) return undefined;
+  const expected = Buffer.from(anonymousIdSignature(id));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? value : undefined;
+}
+
+const listenerFilter = ({ userId, anonymousId }: Listener) =>
+  userId ? { user: new Types.ObjectId(userId) } : { anonymousId };
+
+// Count one play of a song, updating its play count and trending score. Returns the updated song.
+export function countPlay(songId: string) {
+  return Song.findByIdAndUpdate(
+    songId,
+    [
+      { $set: { playCount: { $add: [{ $ifNull: ['$playCount', 0] }, 1] } } },
+      addToTrendingScore(trendingPoint()),
+    ],
+    { new: true }
+  );
+}
+
+function reachedThreshold(event: IPlayEvent, song: ISong) {
+  if (event.completed) return true;
+  const durationSeconds = song.duration ? song.duration / 1000 : undefined;
+  const threshold = durationSeconds
+    ? Math.min(MIN_LISTEN_SECONDS, durationSeconds / 2)
+    : MIN_LISTEN_SECONDS;
+  return event.listenedSeconds >= threshold;
+}
+
+// The reported progress as far as it can be believed `elapsedSeconds` after the listen started:
+// nobody hears more than real time allows, or more than the song, and a listen can't be
+// completed before most of the song could have played.
+function creditedProgress(song: ISong, progress: PlayProgress, elapsedSeconds: number) {
+  const durationSeconds = song.duration ? song.duration / 1000 : undefined;
+  const listened = Math.min(Math.max(progress.listenedSeconds ?? 0, 0), elapsedSeconds);
+  const listenedSeconds = durationSeconds ? Math.min(listened, durationSeconds) : listened;
+
+  const completionSeconds = durationSeconds
+    ? durationSeconds * COMPLETION_RATIO
+    : MIN_LISTEN_SECONDS;
+  const completed =
+    elapsedSeconds >= completionSeconds &&
+    (progress.completed === true ||
+      (!!durationSeconds && listenedSeconds >= durationSeconds * COMPLETION_RATIO));
+
+  return { listenedSeconds, completed };
+}
+
+// Start a listen, or update one with the progress reported so far (`playId`).
+// A new listen starts at zero whatever is reported; after that, listened time only ever
+// grows and is capped by the time since the listen started (see creditedProgress). The event
+// is counted once, when it first passes the threshold, unless the same listener already
+// had a counted play of the song within the dedupe window.
+export async function recordPlay(
+  song: ISong,
+  listener: Listener,
+  progress: PlayProgress,
+  playId?: string
+) {
+  let event: IPlayEvent | null;
+  if (playId) {
+    if (!Types.ObjectId.isValid(playId)) return null;
+    const filter = { _id: playId, song: song._id, ...listenerFilter(listener) };
+    const started = await PlayEvent.findOne(filter).select('createdAt');
+    if (!started) return null;
+
+    const elapsedSeconds = (Date.now() - started.createdAt.getTime()) / 1000;
+    const { listenedSeconds, completed } = creditedProgress(song, progress, elapsedSeconds);
+    event = await PlayEvent.findOneAndUpdate(
+      filter,
+      {
+        $max: { listenedSeconds },
+        ...(completed ? { $set: { completed: true } } : {}),
+      },
+      { new: true }
+    );
+    if (!event) return null;
+  } else {
+    event = await PlayEvent.create({
+      song: song._id,
+      user: listener.userId,
+      anonymousId: listener.userId ? undefined : listener.anonymousId,
+      source: progress.source,
+    });
+  }
+
+  if (event.counted || !reachedThreshold(event, song)) {
+    return { event, playCount: song.playCount ?? 0 };
+  }
+
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - DEDUPE_WINDOW_MS);
+  const recent = await PlayEvent.exists({
+    song: song._id,
+    ...listenerFilter(listener),
+    countedAt: { $gte: windowStart },
+  });
+  if (recent) {
+    return { event, playCount: song.playCount ?? 0 };
+  }
+
+  // Flip the flag atomically so parallel progress reports can't count the same listen twice
+  const counted = await PlayEvent.findOneAndUpdate(
+    { _id: event._id, counted: false },
+    { $set: { counted: true, countedAt: now } },
+    { new: true }
+  );
+  if (!counted) {
+    return { event, playCount: song.playCount ?? 0 };
+  }
+
+  // Two listens by the same person can both pass the check above. Each looks again once its
+  // own flag is set, and whichever was counted later backs out, so only one of them counts.
+  const earlier = await PlayEvent.exists({
+    _id: { $ne: counted._id },
+    song: song._id,
+    ...listenerFilter(listener),
+    counted: true,
+    countedAt: { $gte: windowStart },
+    $or: [{ countedAt: { $lt: now } }, { countedAt: now, _id: { $lt: counted._id } }],
+  });
+  if (earlier) {
+    await PlayEvent.updateOne(
+      { _id: counted._id },
+      { $set: { counted: false }, $unset: { countedAt: 1 } }
+    );
+    return { event, playCount: song.playCount ?? 0 };
+  }
+
+  const updated = await countPlay(song.id);
+  return { event: counted, playCount: updated?.playCount ?? song.playCount ?? 0 };
+}
@@ -0,0 +1,29 @@
+import { env } from '../config/env';
+import { CHART_PERIODS, refreshChartPeriod } from './charts';
+import { recomputeTrendingScores } from './trending';
+
+let timer: NodeJS.Timeout | null = null;
+
+// Recompute trending scores and refresh the daily and weekly charts
+export async function refreshPopularity(now = new Date()) {
+  await recomputeTrendingScores(now);
+  for (const period of CHART_PERIODS) {
+    await refreshChartPeriod(period, now);
+  }
+}
+
+// Run refreshPopularity now and then every env.popularityRefreshMinutes
+export function startPopularityJob() {
+  if (timer) return;
+
+  const run = () =>
+    refreshPopularity().catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error('Error refreshing trending scores and charts:', error);
+    });
+
+  void run();
+  timer = setInterval(run, env.popularityRefreshMinutes * 60 * 1000);
+  // Don't keep the process alive just for this
+  timer.unref();
+}
@@ -0,0 +1,248 @@
+import { Types } from 'mongoose';
+import { PlayEvent } from '../models/PlayEvent';
+import { ISong, Song } from '../models/Song';
+import { SongLike } from '../models/SongLike';
+import { User } from '../models/User';
+import { getBlockedIds, getFriendIds, visibleSongsFilter } from './visibility';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS = 90; // Listening taste is read from this far back
+const RECENT_DAYS = 30; // Songs heard (or friend activity) this recently
+
+const SEED_SONGS = 10; // My most played songs, used for co-listens
+const MAX_CO_LISTENERS = 200;
+const MAX_CO_LISTENERS_PER_PAIR = 5;
+const TOP_CATEGORIES = 3;
+const SONGS_PER_CATEGORY = 20;
+
+// How much each signal adds to a candidate's score
+const CO_LISTEN_WEIGHT = 1.5; // Per listener of one of my songs who also played it
+const FRIEND_LIKE_WEIGHT = 2; // Per friend who liked it
+const FRIEND_PLAY_WEIGHT = 1; // Per friend who played it
+const CATEGORY_WEIGHT = 2; // Scaled by the category's share of my plays
+const TRENDING_WEIGHT = 0.5; // Filler when the other signals run short
+
+export interface Recommendation {
+  song: ISong;
+  score: number;
+  reason: string;
+}
+
+interface CoListen {
+  _id: { song: Types.ObjectId; seed: Types.ObjectId };
+  listeners: number; // People who played both the seed and the song
+}
+
+interface Candidate {
+  score: number;
+  // Contributions grouped by why they were made; the biggest group becomes the reason
+  reasons: Map<string, { weight: number; text: string }>;
+}
+
+const names = (people: string[]) =>
+  people.length === 1
+    ? people[0]
+    : people.length === 2
+      ? `${people[0]} and ${people[1]}`
+      : `${people[0]} and ${people.length - 1} other friends`;
+
+// Songs for a user, from co-listens (people who played what I play), what my friends play and
+// like, and the categories I listen to, with trending songs as filler. Leaves out my own songs,
+// songs by people I blocked or who blocked me, and anything I've heard in the last RECENT_DAYS.
+// Each result carries a displayable reason.
+export async function recommendSongs(userId: string, limit: number): Promise<Recommendation[]> {
+  const now = Date.now();
+  const historySince = new Date(now - HISTORY_DAYS * DAY_MS);
+  const recentSince = new Date(now - RECENT_DAYS * DAY_MS);
+  const me = new Types.ObjectId(userId);
+
+  const [friendIds, blockedIds] = await Promise.all([getFriendIds(userId), getBlockedIds(userId)]);
+  const friends = Array.from(friendIds, (id) => new Types.ObjectId(id));
+
+  // What I've been playing, most played first
+  const myPlays = await PlayEvent.aggregate<{ _id: Types.ObjectId; plays: number; lastAt: Date }>([
+    { $match: { user: me, counted: true, countedAt: { $gte: historySince } } },
+    { $group: { _id: '$song', plays: { $sum: 1 }, lastAt: { $max: '$countedAt' } } },
+    { $sort: { plays: -1, lastAt: -1 } },
+  ]);
+
+  const excluded = new Set(
+    myPlays.filter((p) => p.lastAt >= recentSince).map((p) => p._id.toString())
+  );
+  const seedIds = myPlays.slice(0, SEED_SONGS).map((p) => p._id);
+
+  const playedSongs = await Song.find({ _id: { $in: myPlays.map((p) => p._id) } }).select(
+    'title category'
+  );
+  const titles = new Map(playedSongs.map((song) => [song.id, song.title]));
+
+  // Share of my plays per category
+  const categoryPlays = new Map<string, number>();
+  let categorizedPlays = 0;
+  for (const { _id, plays } of myPlays) {
+    const category = playedSongs.find((song) => song._id.equals(_id))?.category;
+    if (!category) continue;
+    categoryPlays.set(category, (categoryPlays.get(category) ?? 0) + plays);
+    categorizedPlays += plays;
+  }
+  const topCategories = Array.from(categoryPlays)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_CATEGORIES);
+
+  const candidates = new Map<string, Candidate>();
+  const add = (songId: string, weight: number, key: string, text: string) => {
+    if (excluded.has(songId)) return;
+    const candidate = candidates.get(songId) ?? { score: 0, reasons: new Map() };
+    candidate.score += weight;
+    const reason = candidate.reasons.get(key) ?? { weight: 0, text };
+    reason.weight += weight;
+    candidate.reasons.set(key, reason);
+    candidates.set(songId, candidate);
+  };
+
+  const [coListens, friendPlays, friendLikes, friendUsers] = await Promise.all([
+    // People who played my top songs, and what else they played
+    seedIds.length
+      ? PlayEvent.aggregate<CoListen>([
+          {
+            $match: {
+              song: { $in: seedIds },
+              counted: true,
+              countedAt: { $gte: historySince },
+              user: { $exists: true, $ne: me },
+            },
+          },
+          { $group: { _id: '$user', seeds: { $addToSet: '$song' } } },
+          { $limit: MAX_CO_LISTENERS },
+          {
+            $lookup: {
+              from: PlayEvent.collection.name,
+              let: { listener: '$_id' },
+              pipeline: [
+                {
+                  $match: {
+                    $expr: { $eq: ['$user', '$$listener'] },
+                    counted: true,
+                    countedAt: { $gte: historySince },
+                  },
+                },
+                { $group: { _id: '$song' } },
+              ],
+              as: 'played',
+            },
+          },
+          { $unwind: '$played' },
+          { $unwind: '$seeds' },
+          { $group: { _id: { song: '$played._id', seed: '$seeds' }, listeners: { $sum: 1 } } },
+        ])
+      : [],
+    friends.length
+      ? PlayEvent.aggregate<{ _id: Types.ObjectId; friends: Types.ObjectId[] }>([
+          { $match: { user: { $in: friends }, counted: true, countedAt: { $gte: recentSince } } },
+          { $group: { _id: '$song', friends: { $addToSet: '$user' } } },
+        ])
+      : [],
+    friends.length
+      ? SongLike.find({ user: { $in: friends }, createdAt: { $gte: historySince } }).select(
+          'user song'
+        )
+      : [],
+    User.find({ _id: { $in: friends } }).select('name'),
+  ]);
+
+  const seeds = new Set(seedIds.map((id) => id.toString()));
+  for (const { _id, listeners } of coListens) {
+    const songId = _id.song.toString();
+    const seedId = _id.seed.toString();
+    if (seeds.has(songId)) continue;
+    add(
+      songId,
+      CO_LISTEN_WEIGHT * Math.min(listeners, MAX_CO_LISTENERS_PER_PAIR),
+      `seed:${seedId}`,
+      `Because you listened to ${titles.get(seedId) ?? 'a song you played'}`
+    );
+  }
+
+  const friendName = new Map(friendUsers.map((u) => [u.id, u.name]));
+
+  const likedBy = new Map<string, string[]>();
+  for (const like of friendLikes) {
+    const songId = like.song.toString();
+    likedBy.set(songId, [...(likedBy.get(songId) ?? []), like.user.toString()]);
+  }
+  for (const [songId, likers] of likedBy) {
+    const people = likers.map((id) => friendName.get(id)).filter((n): n is string => !!n);
+    if (people.length === 0) continue;
+    add(songId, FRIEND_LIKE_WEIGHT * people.length, 'friend-likes', `${names(people)} liked this`);
+  }
+
+  for (const { _id, friends: listeners } of friendPlays) {
+    const people = listeners
+      .map((id) => friendName.get(id.toString()))
+      .filter((n): n is string => !!n);
+    if (people.length === 0) continue;
+    add(
+      _id.toString(),
+      FRIEND_PLAY_WEIGHT * people.length,
+      'friend-plays',
+      `${names(people)} ${people.length === 1 ? 'has' : 'have'} been listening to this`
+    );
+  }
+
+  const visible = visibleSongsFilter(userId, friendIds);
+  const byOthers = {
+    owner: { $nin: [me, ...Array.from(blockedIds, (id) => new Types.ObjectId(id))] },
+  };
+
+  // Popular songs in the categories I play most, plus trending filler
+  const [categorySongs, trending] = await Promise.all([
+    Promise.all(
+      topCategories.map(([category]) =>
+        Song.find({ $and: [visible, byOthers, { category }] })
+          .sort({ trendingScore: -1, _id: -1 })
+          .limit(SONGS_PER_CATEGORY)
+          .select('_id')
+      )
+    ),
+    Song.find({ isPublic: true, ...byOthers })
+      .sort({ trendingScore: -1, _id: -1 })
+      .limit(limit * 2)
+      .select('_id'),
+  ]);
+
+  topCategories.forEach(([category, plays], i) => {
+    const share = plays / categorizedPlays;
+    categorySongs[i].forEach((song, position) => {
+      add(
+        song.id,
+        CATEGORY_WEIGHT * share * (1 - position / (2 * SONGS_PER_CATEGORY)),
+        `category:${category}`,
+        `Because you listen to ${category}`
+      );
+    });
+  });
+
+  trending.forEach((song, position) => {
+    add(
+      song.id,
+      TRENDING_WEIGHT * (1 - position / (4 * limit)),
+      'trending',
+      'Trending right now'
+    );
+  });
+
+  // Only keep songs I may see, by people other than me and those blocked either way
+  // (co-listen and friend signals aren't filtered yet)
+  const songs = await Song.find({
+    $and: [visible, byOthers, { _id: { $in: Array.from(candidates.keys()) } }],
+  }).populate('owner', 'name');
+
+  return songs
+    .map((song) => {
+      const candidate = candidates.get(song.id)!;
+      const [top] = Array.from(candidate.reasons.values()).sort((a, b) => b.weight - a.weight);
+      return { song, score: candidate.score, reason: top.text };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
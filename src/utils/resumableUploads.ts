@@ -0,0 +1,55 @@
+import { Types } from 'mongoose';
+import { ResumableUpload } from '../models/ResumableUpload';
+import { UploadChunk } from '../models/UploadChunk';
+import { releaseUpload } from './uploadQuota';
+
+const EXPIRY_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+
+// Delete an upload and its chunks. The storage reserved when it was started is given back,
+// unless `keepReservation` (its bytes now belong to a song). Only the caller that actually
+// deleted the upload releases, so racing discards can't release twice. Returns whether it did.
+export async function discardResumableUpload(
+  uploadId: Types.ObjectId,
+  {
+    keepReservation = false,
+    expiredBefore,
+  }: { keepReservation?: boolean; expiredBefore?: Date } = {}
+) {
+  const removed = await ResumableUpload.findOneAndDelete({
+    _id: uploadId,
+    ...(expiredBefore ? { expiresAt: { $lte: expiredBefore } } : {}),
+  });
+  if (!removed) return false;
+
+  await UploadChunk.deleteMany({ upload: removed._id });
+  if (!keepReservation && removed.reservedBytes) {
+    await releaseUpload(removed.owner.toString(), removed.reservedBytes, false);
+  }
+  return true;
+}
+
+// Discard uploads that have been idle past their expiry, releasing their reservations
+export async function expireResumableUploads(now = new Date()) {
+  const expired = await ResumableUpload.find({ expiresAt: { $lte: now } }).select('_id');
+  for (const upload of expired) {
+    await discardResumableUpload(upload._id, { expiredBefore: now });
+  }
+}
+
+// Run expireResumableUploads now and then every hour
+export function startUploadExpiryJob() {
+  if (timer) return;
+
+  const run = () =>
+    expireResumableUploads().catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error('Error expiring resumable uploads:', error);
+    });
+
+  void run();
+  timer = setInterval(run, EXPIRY_INTERVAL_MS);
+  // Don't keep the process alive just for this
+  timer.unref();
+}
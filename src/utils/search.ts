@@ -0,0 +1,161 @@
+import { AnyBulkWriteOperation, FilterQuery, Model, Query, Schema, Types } from 'mongoose';
+
+// Only the start of long fields is used for typeahead
+const MAX_SEARCH_TEXT_LENGTH = 200;
+
+// Escape user input for use inside a RegExp
+export function escapeRegex(input: string) {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Lowercase, strip accents and apostrophes, and turn other punctuation into spaces, so
+// "Café  Del" and "cafe del", or "AC/DC" and "ac dc", match. Empty if there are no letters
+// or numbers.
+export function normalizeSearchText(text: string) {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .slice(0, MAX_SEARCH_TEXT_LENGTH);
+}
+
+// The normalized text from each word onwards ("Lofi Beats" -> "lofi beats", "beats"), so an
+// anchored prefix match against these finds the query at the start of any word
+export function searchKeysFor(values: unknown[]) {
+  const keys = new Set<string>();
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const words = normalizeSearchText(value).split(' ').filter(Boolean);
+    words.forEach((_, i) => keys.add(words.slice(i).join(' ')));
+  }
+  return Array.from(keys);
+}
+
+// Matches documents with a word starting with the query, for typeahead. Anchored and
+// case-sensitive on the normalized keys, so it's a range scan on the searchKeys index.
+// Null when nothing is left of the query once normalized (e.g. only punctuation), since an
+// empty prefix would match everything.
+export function wordPrefixFilter(q: string) {
+  const prefix = normalizeSearchText(q);
+  return prefix ? { searchKeys: { $regex: `^${escapeRegex(prefix)}` } } : null;
+}
+
+const searchFieldsBySchema = new WeakMap<Schema, string[]>();
+
+// Adds an indexed `searchKeys` array built from `fields`, kept up to date on save and on
+// findOneAndUpdate/updateOne calls that change any of the fields. Use with wordPrefixFilter.
+export function searchKeysPlugin(schema: Schema, options: { fields: string[] }) {
+  const { fields } = options;
+  searchFieldsBySchema.set(schema, fields);
+
+  schema.add({ searchKeys: { type: [String], select: false } });
+  schema.index({ searchKeys: 1 });
+
+  schema.pre('save', function () {
+    if (this.isNew || fields.some((field) => this.isModified(field))) {
+      this.set('searchKeys', searchKeysFor(fields.map((field) => this.get(field))));
+    }
+  });
+
+  schema.pre(
+    ['findOneAndUpdate', 'updateOne'],
+    async function (this: Query<unknown, Record<string, unknown>>) {
+      const update = this.getUpdate();
+      if (!update || Array.isArray(update)) return;
+
+      // Plain fields in an update are implicitly $set
+      const set = { ...update, ...(update.$set as Record<string, unknown> | undefined) };
+      if (!fields.some((field) => field in set)) return;
+
+      // Fields the update doesn't change come from the stored document
+      const current = await this.model
+        .findOne(this.getFilter())
+        .select(fields.join(' '))
+        .lean<Record<string, unknown>>();
+      const values = fields.map((field) => (field in set ? set[field] : current?.[field]));
+      this.setUpdate({
+        ...update,
+        $set: { ...(update.$set as object | undefined), searchKeys: searchKeysFor(values) },
+      });
+    }
+  );
+}
+
+// Fill in searchKeys for documents saved before the plugin was added, or with `rebuild`,
+// recompute them for every document (after normalizeSearchText changes)
+export async function backfillSearchKeys<T>(model: Model<T>, { rebuild = false } = {}) {
+  const fields = searchFieldsBySchema.get(model.schema);
+  if (!fields) return;
+
+  const cursor = model
+    .find((rebuild ? {} : { searchKeys: { $exists: false } }) as FilterQuery<T>)
+    .select(fields.join(' '))
+    .lean<Record<string, unknown>>()
+    .cursor();
+
+  let batch: AnyBulkWriteOperation[] = [];
+  for await (const doc of cursor) {
+    batch.push({
+      updateOne: {
+        filter: { _id: doc._id as Types.ObjectId },
+        update: { $set: { searchKeys: searchKeysFor(fields.map((field) => doc[field])) } },
+      },
+    });
+    if (batch.length === 500) {
+      await model.bulkWrite(batch);
+      batch = [];
+    }
+  }
+  if (batch.length) await model.bulkWrite(batch);
+}
+
+// Extra score for prefix matches, so typing "lo" ranks "Lofi beats" above a song that merely
+// mentions "lo" somewhere in its category
+const PREFIX_BONUS = 5;
+
+interface RankedSearchOptions<T> {
+  q: string;
+  filter: FilterQuery<T>; // Visibility and other restrictions, applied to every match
+  limit: number;
+  select?: string;
+}
+
+// Full-text search (stemmed whole words, ranked by textScore) merged with word-prefix matches,
+// so partially typed words still find results. Requires a text index on the collection and
+// searchKeysPlugin on its schema.
+export async function rankedSearch<T>(model: Model<T>, options: RankedSearchOptions<T>) {
+  const { q, filter, limit, select } = options;
+  const prefixFilter = wordPrefixFilter(q);
+  if (!prefixFilter) return [];
+
+  const textQuery = model
+    .find({ $text: { $search: q }, ...filter }, { score: { $meta: 'textScore' } })
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit);
+  const prefixQuery = model
+    .find({ $and: [filter, prefixFilter] } as FilterQuery<T>)
+    .limit(limit);
+  if (select) {
+    textQuery.select(select);
+    prefixQuery.select(select);
+  }
+
+  const [textHits, prefixHits] = await Promise.all([textQuery, prefixQuery]);
+
+  const ranked = new Map<string, { doc: (typeof textHits)[number]; score: number }>();
+  for (const doc of textHits) {
+    ranked.set(String(doc._id), { doc, score: Number(doc.get('score')) || 0 });
+  }
+  for (const doc of prefixHits) {
+    const existing = ranked.get(String(doc._id));
+    if (existing) existing.score += PREFIX_BONUS;
+    else ranked.set(String(doc._id), { doc, score: PREFIX_BONUS });
+  }
+
+  return Array.from(ranked.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,28 @@
+import { Types } from 'mongoose';
+import { ISong, songStreamUrl } from '../models/Song';
+import { SongLike } from '../models/SongLike';
+
+// Which of the given songs the viewer has liked
+export async function likedSongIds(viewerId: string | null | undefined, songIds: Types.ObjectId[]) {
+  if (!viewerId || songIds.length === 0) return new Set<string>();
+  const likes = await SongLike.find({ user: viewerId, song: { $in: songIds } }).select('song');
+  return new Set(likes.map((l) => l.song.toString()));
+}
+
+// Plain song objects with a `likedByMe` flag for the viewer (always false for guests)
+// and the access-checked `streamUrl` to play them from.
+// Counters are defaulted for songs created before they existed.
+export async function withLikedByMe(songs: ISong[], viewerId?: string | null) {
+  const liked = await likedSongIds(
+    viewerId,
+    songs.map((s) => s._id as Types.ObjectId)
+  );
+
+  return songs.map((song) => ({
+    ...song.toObject(),
+    likeCount: song.likeCount ?? 0,
+    commentCount: song.commentCount ?? 0,
+    likedByMe: liked.has(song.id),
+    streamUrl: songStreamUrl(song.id),
+  }));
+}
@@ -0,0 +1,119 @@
+import { Types } from 'mongoose';
+
+export type SongSort = 'newest' | 'most_played' | 'trending';
+
+const SORT_FIELDS: Record<SongSort, 'createdAt' | 'playCount' | 'trendingScore'> = {
+  newest: 'createdAt',
+  most_played: 'playCount',
+  trending: 'trendingScore',
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+interface Cursor {
+  v: string | number | null; // Sort field value of the last song on the page
+  id: string;
+}
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+type SortField = (typeof SORT_FIELDS)[SongSort];
+
+// The cursor's value must be what nextCursor writes for the field: null, an ISO date for
+// createdAt, or a finite number. Anything else (an object, say) would end up in the query.
+function isCursorValue(field: SortField, v: unknown) {
+  if (v === null) return true;
+  if (field === 'createdAt') {
+    return typeof v === 'string' && !Number.isNaN(new Date(v).getTime());
+  }
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function decodeCursor(raw: string, field: SortField): Cursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (
+      parsed &&
+      typeof parsed.id === 'string' &&
+      Types.ObjectId.isValid(parsed.id) &&
+      isCursorValue(field, parsed.v)
+    ) {
+      return { v: parsed.v, id: parsed.id };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+function parseDate(value: unknown) {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Parse ?sort=&cursor=&limit=&category=&owner=&from=&to= for song listings.
+// Returns the extra filter, sort and limit to apply, or an error message for a 400.
+export function parseSongListQuery(query: Record<string, unknown>) {
+  const sort = (typeof query.sort === 'string' ? query.sort : 'newest') as SongSort;
+  if (!SORT_FIELDS[sort]) {
+    return { error: `sort must be one of: ${Object.keys(SORT_FIELDS).join(', ')}` };
+  }
+  const field = SORT_FIELDS[sort];
+  const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const conditions: Record<string, unknown>[] = [];
+
+  if (typeof query.category === 'string' && query.category.trim()) {
+    conditions.push({ category: query.category.trim() });
+  }
+
+  if (typeof query.owner === 'string' && query.owner) {
+    if (!Types.ObjectId.isValid(query.owner)) return { error: 'Invalid owner' };
+    conditions.push({ owner: new Types.ObjectId(query.owner) });
+  }
+
+  const from = parseDate(query.from);
+  const to = parseDate(query.to);
+  if (from === null || to === null) return { error: 'from and to must be valid dates' };
+  if (from || to) {
+    conditions.push({ createdAt: { ...(from ? { $gte: from } : {}), ...(to ? { $lte: to } : {}) } });
+  }
+
+  if (typeof query.cursor === 'string' && query.cursor) {
+    const cursor = decodeCursor(query.cursor, field);
+    if (!cursor) return { error: 'Invalid cursor' };
+
+    const id = new Types.ObjectId(cursor.id);
+    if (cursor.v === null) {
+      // Songs missing the field (created before it existed) sort last, by id
+      conditions.push({ [field]: null, _id: { $lt: id } });
+    } else {
+      const value = field === 'createdAt' ? new Date(cursor.v) : cursor.v;
+      conditions.push({
+        $or: [
+          { [field]: { $lt: value } },
+          { [field]: value, _id: { $lt: id } },
+          ...(field === 'createdAt' ? [] : [{ [field]: null }]),
+        ],
+      });
+    }
+  }
+
+  return {
+    filter: conditions.length ? { $and: conditions } : {},
+    sort: { [field]: -1, _id: -1 } as Record<string, -1>,
+    limit,
+    // Cursor pointing after the last song of a full page
+    nextCursor(songs: { _id: unknown; get(path: string): unknown }[]) {
+      if (songs.length <= limit) return null;
+      const last = songs[limit - 1];
+      const raw = last.get(field);
+      const v = raw instanceof Date ? raw.toISOString() : raw == null ? null : Number(raw);
+      return encodeCursor({ v, id: String(last._id) });
+    },
+  };
+}
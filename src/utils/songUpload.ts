@@ -0,0 +1,140 @@
+import { detectMediaType, maxUploadBytes } from '../middleware/upload';
+import { Song, ISong } from '../models/Song';
+import { User } from '../models/User';
+import storage, { deleteQuietly } from '../storage';
+import { extractAudioMetadata } from './audioMetadata';
+import { QuotaError, releaseUpload, reserveUpload } from './uploadQuota';
+
+export interface SongUploadFields {
+  title?: string;
+  category?: string;
+  artist?: string;
+  album?: string;
+  isPublic?: string;
+}
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+const deriveTitleFromFilename = (filename: string | undefined) => {
+  const raw = (filename ?? '').trim();
+  const withoutExt = raw.replace(/\.[^/.]+$/, '');
+  const cleaned = withoutExt.replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned || 'Untitled';
+};
+
+// Store an already validated audio file (and optional cover) and create its Song.
+// Blank title/artist/album/category fields and a missing cover are filled from the file's tags.
+// Used by both the single-request and the resumable upload; the latter has already reserved
+// storage for the audio (`audioReserved`), so only the cover and the upload count are reserved.
+export async function createUploadedSong(
+  userId: string,
+  audioFile: UploadedFile,
+  coverFile: UploadedFile | undefined,
+  fields: SongUploadFields,
+  { audioReserved = false }: { audioReserved?: boolean } = {}
+): Promise<{ error: QuotaError } | { song: ISong }> {
+  const { title, category, artist, album, isPublic } = fields;
+
+  const metadata = await extractAudioMetadata(audioFile.buffer, audioFile.mimetype);
+
+  const resolvedTitle =
+    title?.trim() || metadata.title || deriveTitleFromFilename(audioFile.originalname);
+
+  // Embedded art goes through the same checks as an uploaded cover; bad art is just skipped
+  const picture = !coverFile ? metadata.picture : undefined;
+  const embeddedCover =
+    picture &&
+    picture.data.length <= maxUploadBytes('image') &&
+    (await detectMediaType(picture.data, 'image'))
+      ? picture
+      : undefined;
+
+  const audioBytes = audioFile.size;
+  const coverBytes = coverFile?.size ?? embeddedCover?.data.length;
+  const reservedBytes = (audioReserved ? 0 : audioBytes) + (coverBytes ?? 0);
+
+  const quotaError = await reserveUpload(userId, reservedBytes);
+  if (quotaError) return { error: quotaError };
+
+  const owner = await User.findById(userId);
+
+  // allSettled so that if one put fails, whatever the other stored can still be removed
+  const [audioResult, coverResult] = await Promise.allSettled([
+    storage.put(audioFile.buffer, {
+      folder: 'audioly/audio',
+      kind: 'audio',
+      filename: audioFile.originalname,
+      contentType: audioFile.mimetype,
+    }),
+    coverFile
+      ? storage.put(coverFile.buffer, {
+          folder: 'audioly/covers',
+          kind: 'image',
+          filename: coverFile.originalname,
+          contentType: coverFile.mimetype,
+        })
+      : embeddedCover
+        ? storage.put(embeddedCover.data, {
+            folder: 'audioly/covers',
+            kind: 'image',
+            contentType: embeddedCover.format,
+          })
+        : null,
+  ]);
+
+  // Give back the reservation and remove the stored files when the song can't be created
+  const discardUpload = async () => {
+    await Promise.all([
+      releaseUpload(userId, reservedBytes),
+      audioResult.status === 'fulfilled' && deleteQuietly(audioResult.value.key, 'audio'),
+      coverResult.status === 'fulfilled' && deleteQuietly(coverResult.value?.key, 'image'),
+    ]);
+  };
+
+  if (audioResult.status === 'rejected' || coverResult.status === 'rejected') {
+    await discardUpload();
+    throw audioResult.status === 'rejected'
+      ? audioResult.reason
+      : (coverResult as PromiseRejectedResult).reason;
+  }
+  const audioUpload = audioResult.value;
+  const coverUpload = coverResult.value;
+
+  let song: ISong;
+  try {
+    song = await Song.create({
+      owner: userId,
+      title: resolvedTitle,
+      category: category?.trim() || metadata.genre,
+      artist: artist?.trim() || metadata.artist,
+      album: album?.trim() || metadata.album,
+      genre: metadata.genre,
+      duration: metadata.duration,
+      codec: metadata.codec,
+      bitrate: metadata.bitrate,
+      sampleRate: metadata.sampleRate,
+      audioUrl: audioUpload.url,
+      audioPublicId: audioUpload.key,
+      audioBytes,
+      coverUrl: coverUpload?.url,
+      coverPublicId: coverUpload?.key,
+      coverBytes: coverUpload ? coverBytes : undefined,
+      // If account is private, force songs to be private
+      isPublic: owner && owner.isPrivate ? false : isPublic ? isPublic === 'true' : true,
+    });
+  } catch (e) {
+    await discardUpload();
+    throw e;
+  }
+
+  await User.findByIdAndUpdate(userId, {
+    $addToSet: { uploadedSongs: song.id },
+  });
+
+  return { song };
+}
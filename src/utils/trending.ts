@@ -0,0 +1,121 @@
+import { PipelineStage, Types } from 'mongoose';
+import { PlayEvent } from '../models/PlayEvent';
+import { Song } from '../models/Song';
+import { SongLike } from '../models/SongLike';
+
+// Trending scores are exponentially time-decayed popularity, stored in log space so songs
+// updated at different times stay comparable without rewriting every score:
+//   trendingScore = ln(sum over events of weight * e^(at / tau))
+// Sorting by it ranks songs by their decayed popularity as of "now", whatever "now" is.
+// Plays and likes are added as they happen; recomputeTrendingScores periodically rebuilds
+// the scores from recent plays, likes and unique listeners.
+
+export const TRENDING_HALF_LIFE_DAYS = 3;
+// Older events have decayed to a few percent and are left out of recomputes
+export const TRENDING_WINDOW_DAYS = 14;
+
+export const PLAY_WEIGHT = 1;
+export const LIKE_WEIGHT = 3;
+export const LISTENER_WEIGHT = 2; // Once per distinct listener, so reach beats replays
+
+const TAU_MS = (TRENDING_HALF_LIFE_DAYS * 24 * 60 * 60 * 1000) / Math.LN2;
+
+// Log-space contribution of one event of the given weight at the given time
+export function trendingPoint(at: Date = new Date(), weight = PLAY_WEIGHT) {
+  return at.getTime() / TAU_MS + Math.log(weight);
+}
+
+// Update pipeline stage adding an event to `trendingScore` (log-sum-exp, done in Mongo)
+export function addToTrendingScore(point: number) {
+  return {
+    $set: {
+      trendingScore: {
+        $let: {
+          vars: { a: { $ifNull: ['$trendingScore', 0] }, b: point },
+          in: {
+            $add: [
+              { $max: ['$$a', '$$b'] },
+              {
+                $ln: {
+                  $add: [1, { $exp: { $multiply: [-1, { $abs: { $subtract: ['$$a', '$$b'] } }] } }],
+                },
+              },
+            ],
+          },
+        },
+      },
+    },
+  };
+}
+
+// Group stage summing weight * e^((date - now) / tau) per song. Relative to now the
+// exponents stay small, so the sums don't overflow the way e^(date / tau) would.
+function decayedSum(dateField: string, weight: number, now: Date): PipelineStage.Group {
+  return {
+    $group: {
+      _id: '$song',
+      total: {
+        $sum: {
+          $multiply: [
+            weight,
+            { $exp: { $divide: [{ $subtract: [{ $toLong: dateField }, now.getTime()] }, TAU_MS] } },
+          ],
+        },
+      },
+    },
+  };
+}
+
+// Rebuild every song's trendingScore from the last TRENDING_WINDOW_DAYS of counted plays,
+// likes and unique listeners. Songs without recent activity drop back to 0.
+export async function recomputeTrendingScores(now = new Date()) {
+  const since = new Date(now.getTime() - TRENDING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const recentPlays = { counted: true, countedAt: { $gte: since, $lte: now } };
+
+  const [plays, listeners, likes] = await Promise.all([
+    PlayEvent.aggregate<{ _id: Types.ObjectId; total: number }>([
+      { $match: recentPlays },
+      decayedSum('$countedAt', PLAY_WEIGHT, now),
+    ]),
+    PlayEvent.aggregate<{ _id: Types.ObjectId; total: number }>([
+      { $match: recentPlays },
+      {
+        $group: {
+          _id: { song: '$song', listener: { $ifNull: ['$user', '$anonymousId'] } },
+          firstAt: { $min: '$countedAt' },
+        },
+      },
+      { $project: { song: '$_id.song', firstAt: 1 } },
+      decayedSum('$firstAt', LISTENER_WEIGHT, now),
+    ]),
+    SongLike.aggregate<{ _id: Types.ObjectId; total: number }>([
+      { $match: { createdAt: { $gte: since, $lte: now } } },
+      decayedSum('$createdAt', LIKE_WEIGHT, now),
+    ]),
+  ]);
+
+  const totals = new Map<string, number>();
+  for (const { _id, total } of [...plays, ...listeners, ...likes]) {
+    totals.set(_id.toString(), (totals.get(_id.toString()) ?? 0) + total);
+  }
+
+  // ln(sum w * e^(at / tau)) = now / tau + ln(sum w * e^((at - now) / tau))
+  const base = now.getTime() / TAU_MS;
+  const ids = Array.from(totals.keys(), (id) => new Types.ObjectId(id));
+
+  await Promise.all([
+    totals.size > 0
+      ? Song.bulkWrite(
+          Array.from(totals, ([id, total]) => ({
+            updateOne: {
+              filter: { _id: new Types.ObjectId(id) },
+              update: { $set: { trendingScore: base + Math.log(total) } },
+            },
+          }))
+        )
+      : null,
+    Song.updateMany({ _id: { $nin: ids }, trendingScore: { $ne: 0 } }, { $set: { trendingScore: 0 } }),
+  ]);
+
+  return totals.size;
+}
@@ -0,0 +1,145 @@
+import { env } from '../config/env';
+import { User } from '../models/User';
+import storage, { deleteQuietly, PutOptions, StoredObject } from '../storage';
+
+const UPLOAD_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaError {
+  status: 413 | 429;
+  message: string;
+}
+
+// When the user's current upload-count window ends (null if they haven't uploaded in the last day)
+export function uploadWindowResetsAt(startedAt: Date | undefined, now = new Date()) {
+  if (!startedAt || now.getTime() - startedAt.getTime() >= UPLOAD_WINDOW_MS) return null;
+  return new Date(startedAt.getTime() + UPLOAD_WINDOW_MS);
+}
+
+function dailyLimitError(resetsAt: Date | null): QuotaError {
+  return {
+    status: 429,
+    message: `You can upload at most ${env.uploads.dailyUploadLimit} songs a day${
+      resetsAt ? `, try again after ${resetsAt.toISOString()}` : ''
+    }`,
+  };
+}
+
+const STORAGE_QUOTA_ERROR: QuotaError = {
+  status: 413,
+  message: 'This upload would exceed your storage quota',
+};
+
+// Check, without reserving anything, whether an upload of `bytes` would currently fit.
+// Lets long uploads fail before the client sends them; reserveUpload still has the final say.
+export async function checkUploadQuota(userId: string, bytes: number): Promise<QuotaError | null> {
+  const user = await User.findById(userId).select('storageUsedBytes uploadWindow');
+  if (!user) return null;
+
+  const resetsAt = uploadWindowResetsAt(user.uploadWindow?.startedAt);
+  if (resetsAt && user.uploadWindow.count >= env.uploads.dailyUploadLimit) {
+    return dailyLimitError(resetsAt);
+  }
+  if ((user.storageUsedBytes ?? 0) + bytes > env.uploads.storageQuotaBytes) {
+    return STORAGE_QUOTA_ERROR;
+  }
+  return null;
+}
+
+// Reserve `bytes` of the user's storage and, for new uploads, one of today's uploads.
+// Returns null when reserved, or the error to send. Call releaseUpload if the upload then fails.
+export async function reserveUpload(
+  userId: string,
+  bytes: number,
+  countsAsUpload = true
+): Promise<QuotaError | null> {
+  const { storageQuotaBytes, dailyUploadLimit } = env.uploads;
+  const now = new Date();
+
+  if (countsAsUpload) {
+    // Start a fresh window once the last one is a day old
+    await User.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { 'uploadWindow.startedAt': { $exists: false } },
+          { 'uploadWindow.startedAt': { $lte: new Date(now.getTime() - UPLOAD_WINDOW_MS) } },
+        ],
+      },
+      { $set: { 'uploadWindow.startedAt': now, 'uploadWindow.count': 0 } }
+    );
+  }
+
+  // One atomic check-and-increment so parallel uploads can't overshoot the quota.
+  // $not matches accounts from before storage was tracked, which have no counter yet.
+  const reserved = await User.findOneAndUpdate(
+    {
+      _id: userId,
+      storageUsedBytes: { $not: { $gt: storageQuotaBytes - bytes } },
+      ...(countsAsUpload ? { 'uploadWindow.count': { $lt: dailyUploadLimit } } : {}),
+    },
+    {
+      $inc: {
+        storageUsedBytes: bytes,
+        ...(countsAsUpload ? { 'uploadWindow.count': 1 } : {}),
+      },
+    }
+  );
+  if (reserved) return null;
+
+  const user = await User.findById(userId).select('uploadWindow');
+  if (countsAsUpload && user && user.uploadWindow.count >= dailyUploadLimit) {
+    return dailyLimitError(uploadWindowResetsAt(user.uploadWindow.startedAt, now));
+  }
+  return STORAGE_QUOTA_ERROR;
+}
+
+// Give back a reservation whose upload failed
+export async function releaseUpload(userId: string, bytes: number, countsAsUpload = true) {
+  await User.updateOne(
+    { _id: userId },
+    {
+      $inc: {
+        storageUsedBytes: -bytes,
+        ...(countsAsUpload ? { 'uploadWindow.count': -1 } : {}),
+      },
+    }
+  );
+}
+
+// Credit storage back when media is deleted or replaced, never going below zero
+// (songs uploaded before storage was tracked have no recorded size)
+export async function freeStorage(userId: string, bytes: number) {
+  if (!bytes) return;
+  await User.updateOne({ _id: userId }, [
+    {
+      $set: {
+        storageUsedBytes: {
+          $max: [0, { $subtract: [{ $ifNull: ['$storageUsedBytes', 0] }, bytes] }],
+        },
+      },
+    },
+  ]);
+}
+
+// Store a file that counts towards the user's storage but isn't a song upload (a replacement
+// cover, avatar or playlist cover). Returns the stored object, or the quota error to send.
+export async function storeWithinQuota(
+  userId: string,
+  data: Buffer,
+  options: PutOptions
+): Promise<{ error: QuotaError } | { stored: StoredObject }> {
+  const quotaError = await reserveUpload(userId, data.length, false);
+  if (quotaError) return { error: quotaError };
+
+  try {
+    return { stored: await storage.put(data, options) };
+  } catch (e) {
+    await releaseUpload(userId, data.length, false);
+    throw e;
+  }
+}
+
+// Undo storeWithinQuota when the document that would reference the file couldn't be saved
+export async function discardStored(userId: string, key: string, bytes: number) {
+  await Promise.all([deleteQuietly(key, 'image'), releaseUpload(userId, bytes, false)]);
+}
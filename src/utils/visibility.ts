@@ -0,0 +1,73 @@
+import { Types } from 'mongoose';
+import { User } from '../models/User';
+import { friendshipsOf, otherUserOf } from './friendships';
+
+type OwnedId = Types.ObjectId | { _id: Types.ObjectId } | string;
+
+function ownerIdOf(owner: OwnedId) {
+  if (typeof owner === 'string') return owner;
+  if (owner instanceof Types.ObjectId) return owner.toString();
+  return owner._id.toString();
+}
+
+// Ids of the user's friends, as strings (empty for guests)
+export async function getFriendIds(userId?: string | null) {
+  if (!userId) return new Set<string>();
+  const friendships = await friendshipsOf(userId, 'accepted').select('requester recipient');
+  return new Set(friendships.map((f) => otherUserOf(f, userId).toString()));
+}
+
+// Ids of users who have blocked the user or been blocked by them, as strings (empty for guests).
+// Blocked users are hidden from each other entirely.
+export async function getBlockedIds(userId?: string | null) {
+  if (!userId) return new Set<string>();
+  const [user, blockers] = await Promise.all([
+    User.findById(userId).select('blockedUsers'),
+    User.find({ blockedUsers: userId }).select('_id'),
+  ]);
+  return new Set([
+    ...(user?.blockedUsers.map((id) => id.toString()) || []),
+    ...blockers.map((u) => u.id as string),
+  ]);
+}
+
+// Whether either user has blocked the other
+export async function isBlockedBetween(userId: string, otherId: string) {
+  const blocked = await User.exists({
+    $or: [
+      { _id: userId, blockedUsers: otherId },
+      { _id: otherId, blockedUsers: userId },
+    ],
+  });
+  return !!blocked;
+}
+
+// Public songs are visible to everyone; private ones to their owner and the owner's friends
+export function canViewSong(
+  song: { owner: OwnedId; isPublic: boolean },
+  viewerId: string | null | undefined,
+  friendIds: Set<string>
+) {
+  if (song.isPublic) return true;
+  if (!viewerId) return false;
+  const ownerId = ownerIdOf(song.owner);
+  return ownerId === viewerId || friendIds.has(ownerId);
+}
+
+// Query filter matching the songs a viewer may see
+export function visibleSongsFilter(viewerId: string | null | undefined, friendIds: Set<string>) {
+  if (!viewerId) return { isPublic: true };
+  return { $or: [{ isPublic: true }, { owner: { $in: [viewerId, ...friendIds] } }] };
+}
+
+export function canViewPlaylist(
+  playlist: { owner: OwnedId; visibility: 'public' | 'friends' | 'private' },
+  viewerId: string | null | undefined,
+  friendIds: Set<string>
+) {
+  const ownerId = ownerIdOf(playlist.owner);
+  if (viewerId && ownerId === viewerId) return true;
+  if (playlist.visibility === 'public') return true;
+  if (playlist.visibility === 'friends') return !!viewerId && friendIds.has(ownerId);
+  return false;
+}
@@ -0,0 +1,30 @@
+// @ts-ignore - yt-search has no type declarations
+import yts from 'yt-search';
+
+// Type for yt-search video result
+export interface YTVideo {
+    videoId: string;
+    title: string;
+    seconds: number;
+    thumbnail: string;
+    author: { name: string };
+}
+
+// Search YouTube for audio tracks, in the { id, title, artist, duration, artwork, source } shape
+// the app plays. Returns null when YouTube gave no result list at all.
+export async function searchYouTubeTracks(q: string, limit = 20) {
+    const searchResults = await yts(q + ' audio');
+
+    if (!searchResults.videos) {
+        return null;
+    }
+
+    return (searchResults.videos as YTVideo[]).slice(0, limit).map((v: YTVideo) => ({
+        id: v.videoId,
+        title: v.title,
+        artist: v.author.name,
+        duration: v.seconds * 1000,
+        artwork: v.thumbnail,
+        source: 'youtube'
+    }));
+}